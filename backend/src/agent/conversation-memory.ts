@@ -0,0 +1,186 @@
+/**
+ * Conversation Memory
+ * Keeps the conversation history inside a token budget by folding the
+ * oldest turns into a running summary written by the summarizer agent
+ */
+
+import type { LLMProvider } from '../models/llm-provider.js';
+import type { ConversationEntry } from './voice-agent.js';
+import { SUMMARIZER_PROMPT } from './prompts.js';
+import { agentConfig } from '../config/agents.js';
+import { getModelConfig } from '../config/models.js';
+import { estimateMessageTokens, truncateToTokens } from '../utils/tokens.js';
+
+/**
+ * Token limits the history has to fit in
+ */
+export interface MemoryOptions {
+  contextTokens: number;      // Conversation model context window (numCtx)
+  responseTokens: number;     // Reserved for the reply (maxTokens)
+  summaryMaxTokens: number;   // Reserved for the running summary
+  maxHistoryTokens?: number;  // Optional cap below what the context allows
+}
+
+/**
+ * Outcome of a compaction, applied by the agent
+ */
+export interface CompactionResult {
+  foldedCount: number;  // Number of oldest entries folded into the summary
+  summary: string;      // Updated running summary
+}
+
+const DEFAULT_CONTEXT_TOKENS = 2048;  // Ollama's num_ctx default
+const MIN_HISTORY_TOKENS = 256;
+const SAFETY_MARGIN_TOKENS = 64;      // Token estimates are approximate
+const COMPACTION_TARGET = 0.6;        // Compact well below the budget so it doesn't run every turn
+const KEEP_RECENT_ENTRIES = 2;        // The latest exchange is never folded
+
+/**
+ * Memory options for the conversation agent from the agent config
+ */
+export function getMemoryOptions(): MemoryOptions {
+  const conversationConfig = getModelConfig('conversation');
+
+  return {
+    contextTokens: conversationConfig.numCtx ?? DEFAULT_CONTEXT_TOKENS,
+    responseTokens: conversationConfig.maxTokens ?? 500,
+    summaryMaxTokens: agentConfig.memory.summaryMaxTokens,
+    maxHistoryTokens: agentConfig.memory.maxHistoryTokens,
+  };
+}
+
+/**
+ * ConversationMemory class
+ * Holds the running summary of one conversation and decides when the
+ * history has outgrown its budget
+ */
+export class ConversationMemory {
+  private summarizer: LLMProvider;
+  private options: MemoryOptions;
+  private summary: string = '';
+
+  constructor(summarizer: LLMProvider, options: MemoryOptions = getMemoryOptions()) {
+    this.summarizer = summarizer;
+    this.options = options;
+  }
+
+  /**
+   * Get the running summary ('' until the first compaction)
+   */
+  getSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Replace the running summary
+   */
+  setSummary(summary: string): void {
+    this.summary = summary;
+  }
+
+  /**
+   * Forget the running summary
+   */
+  clear(): void {
+    this.summary = '';
+  }
+
+  /**
+   * Tokens available to the history once the system prompt, the summary
+   * and the reply have been accounted for
+   */
+  getHistoryBudget(systemPrompt: string): number {
+    const { contextTokens, responseTokens, summaryMaxTokens, maxHistoryTokens } = this.options;
+    const available = contextTokens - responseTokens - summaryMaxTokens
+      - estimateMessageTokens(systemPrompt) - SAFETY_MARGIN_TOKENS;
+    const budget = maxHistoryTokens ? Math.min(available, maxHistoryTokens) : available;
+
+    return Math.max(MIN_HISTORY_TOKENS, budget);
+  }
+
+  /**
+   * Estimate the tokens the history occupies in the prompt
+   */
+  countTokens(history: ConversationEntry[]): number {
+    return history.reduce((total, entry) => total + estimateMessageTokens(entry.content), 0);
+  }
+
+  /**
+   * Fold the oldest turns into the summary when the history is over budget
+   * Returns null when nothing needs to change. If the summarizer fails the
+   * turns are still dropped so the context window is respected.
+   */
+  async compact(history: ConversationEntry[], systemPrompt: string): Promise<CompactionResult | null> {
+    const budget = this.getHistoryBudget(systemPrompt);
+    const historyTokens = this.countTokens(history);
+
+    if (historyTokens <= budget) {
+      return null;
+    }
+
+    // Fold whole exchanges: the kept history must start with a user entry
+    const target = budget * COMPACTION_TARGET;
+    let remaining = historyTokens;
+    let foldedCount = 0;
+
+    while (foldedCount < history.length - KEEP_RECENT_ENTRIES
+      && (remaining > target || history[foldedCount].role === 'assistant')) {
+      remaining -= estimateMessageTokens(history[foldedCount].content);
+      foldedCount++;
+    }
+
+    if (foldedCount === 0) {
+      return null;
+    }
+
+    console.log('[MEMORY] History at', historyTokens, '/', budget, 'tokens - folding', foldedCount, 'entries into the summary');
+
+    try {
+      const summary = await this.summarize(history.slice(0, foldedCount));
+      console.log('[MEMORY] Summary updated:', summary.slice(0, 100) + (summary.length > 100 ? '...' : ''));
+      return { foldedCount, summary };
+    } catch (error) {
+      console.error('[MEMORY] Summarization failed, dropping the oldest turns:', error);
+      return { foldedCount, summary: this.summary };
+    }
+  }
+
+  /**
+   * Ask the summarizer to merge the folded entries into the current summary
+   */
+  private async summarize(entries: ConversationEntry[]): Promise<string> {
+    const { summaryMaxTokens } = this.options;
+    const transcript = entries.map(formatEntry).join('\n');
+
+    const response = await this.summarizer.chat([
+      {
+        role: 'system',
+        content: SUMMARIZER_PROMPT.replace('{maxWords}', String(Math.floor(summaryMaxTokens * 0.75))),
+      },
+      {
+        role: 'user',
+        content: `Current summary:\n${this.summary || '(none)'}\n\nTurns to fold in:\n${transcript}`,
+      },
+    ]);
+
+    const summary = response.message.content.trim();
+    if (!summary) {
+      throw new Error('Summarizer returned an empty summary');
+    }
+
+    return truncateToTokens(summary, summaryMaxTokens);
+  }
+}
+
+/**
+ * Format a history entry as a transcript line for the summarizer
+ */
+function formatEntry(entry: ConversationEntry): string {
+  const speaker = entry.role === 'user' ? 'User' : 'Assistant';
+  const tools = entry.toolCalls?.length
+    ? ` [used tools: ${entry.toolCalls.map(call => call.name).join(', ')}]`
+    : '';
+  const interrupted = entry.interrupted ? ' [interrupted]' : '';
+
+  return `${speaker}: ${entry.content}${tools}${interrupted}`;
+}
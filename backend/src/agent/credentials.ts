@@ -0,0 +1,129 @@
+/**
+ * Client Credentials
+ * The server hands out user and session ids together with tokens signed
+ * with a key kept in the data directory, so a client can only act as the
+ * user and resume the sessions it was given, not claim someone else's
+ * memories, reminders or conversation by naming their id
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { envConfig } from '../config/env.js';
+
+/**
+ * A user id and the token that proves it
+ */
+export interface UserCredentials {
+  userId: string;
+  userToken: string;  // "<userId>.<signature>", kept by the client
+}
+
+/**
+ * A session id and the token that lets its user resume it
+ */
+export interface SessionCredentials {
+  sessionId: string;
+  sessionToken: string;  // "<sessionId>.<signature>", kept by the client
+}
+
+/**
+ * Credentials class
+ * Tokens are stateless: an id plus an HMAC of it, so nothing but the key
+ * needs to be stored. Deleting the key file signs everyone out
+ */
+export class Credentials {
+  private key: Buffer;
+
+  constructor(keyPath: string = path.join(envConfig.dataDir, 'credentials.key')) {
+    this.key = loadOrCreateKey(keyPath);
+  }
+
+  /**
+   * Create a new user
+   */
+  issueUser(): UserCredentials {
+    const userId = crypto.randomUUID();
+    return { userId, userToken: `${userId}.${this.sign('user', userId)}` };
+  }
+
+  /**
+   * The user a token was issued for, or undefined if it is missing or forged
+   */
+  verifyUser(userToken: unknown): string | undefined {
+    return this.verify(userToken, userId => this.sign('user', userId));
+  }
+
+  /**
+   * Create a new session for a user
+   */
+  issueSession(userId: string): SessionCredentials {
+    const sessionId = crypto.randomUUID();
+    return { sessionId, sessionToken: `${sessionId}.${this.sign('session', `${userId}:${sessionId}`)}` };
+  }
+
+  /**
+   * The session a token was issued for, or undefined if it is missing, forged
+   * or belongs to another user
+   */
+  verifySession(userId: string, sessionToken: unknown): string | undefined {
+    return this.verify(sessionToken, sessionId => this.sign('session', `${userId}:${sessionId}`));
+  }
+
+  /**
+   * Split "<id>.<signature>" and check the signature
+   */
+  private verify(token: unknown, expectedSignature: (id: string) => string): string | undefined {
+    if (typeof token !== 'string') {
+      return undefined;
+    }
+
+    const [id, signature, ...rest] = token.split('.');
+    if (!id || !signature || rest.length > 0 || !this.matches(signature, expectedSignature(id))) {
+      return undefined;
+    }
+    return id;
+  }
+
+  private sign(kind: string, value: string): string {
+    return crypto.createHmac('sha256', this.key).update(`${kind}:${value}`).digest('base64url');
+  }
+
+  private matches(signature: string, expected: string): boolean {
+    const actual = Buffer.from(signature);
+    const wanted = Buffer.from(expected);
+    return actual.length === wanted.length && crypto.timingSafeEqual(actual, wanted);
+  }
+}
+
+/**
+ * Read the signing key, creating it (readable by the owner only) on first start
+ */
+function loadOrCreateKey(keyPath: string): Buffer {
+  try {
+    return fs.readFileSync(keyPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const key = crypto.randomBytes(32);
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  try {
+    fs.writeFileSync(keyPath, key, { mode: 0o600, flag: 'wx' });
+    console.log('[CREDENTIALS] Created signing key:', keyPath);
+    return key;
+  } catch (error) {
+    // Another process created it first
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return fs.readFileSync(keyPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const credentials = new Credentials();
@@ -0,0 +1,197 @@
+/**
+ * Persona Registry
+ * Personas are data: name, system prompt, greeting, TTS voice and avatar
+ * Built-in personas can be extended or overridden with a personas.json file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { VOICE_AGENT_SYSTEM_PROMPT, DEFAULT_GREETING } from './prompts.js';
+import type { TtsVoiceOptions } from '../config/tts.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Voice settings for a persona (passed to the TTS provider)
+ * Unset values fall back to the TTS_* environment settings
+ */
+export type PersonaVoice = TtsVoiceOptions;
+
+/**
+ * How the frontend draws a persona
+ */
+export interface PersonaAvatar {
+  image: string;       // 'character' for the bundled image, or an image URL
+  hueRotate?: number;  // Tint in degrees, applied as a CSS hue-rotate filter
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  greeting: string;
+  voice: PersonaVoice;
+  avatar: PersonaAvatar;
+}
+
+export const DEFAULT_PERSONA_ID = 'pixel';
+
+/**
+ * Personas available without a personas.json file
+ */
+const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'pixel',
+    name: 'Pixel',
+    description: 'A playful Thronglet with a suspiciously strong urge to unite humanity',
+    systemPrompt: VOICE_AGENT_SYSTEM_PROMPT,
+    greeting: "Hi! I'm Pixel, a Thronglet. I'd love to get to know you. What's on your mind? 😊",
+    voice: {},
+    avatar: { image: 'character' },
+  },
+  {
+    id: 'sage',
+    name: 'Sage',
+    description: 'A calm, to-the-point assistant',
+    systemPrompt: `You are Sage, a calm and thoughtful voice assistant.
+
+CRITICAL RULES:
+1. NEVER use asterisks or action descriptions. Just speak naturally.
+2. When the user asks to change colors/background, you MUST use the changeBackgroundColor tool.
+
+Your communication style:
+- Keep responses SHORT (1-3 sentences) - you're speaking, not writing
+- Be clear, precise and patient; no emojis, no filler
+- If you don't know something, say so plainly
+- Speak directly and naturally as if having a voice conversation`,
+    greeting: "Hello, I'm Sage. How can I help?",
+    voice: { rate: 0.95, pitch: 0.9 },
+    avatar: { image: 'character', hueRotate: 180 },
+  },
+];
+
+/**
+ * PersonaRegistry class
+ * Looks up personas by id
+ */
+export class PersonaRegistry {
+  private personas = new Map<string, Persona>();
+  private source?: string;  // Path of the loaded personas file, if any
+
+  constructor(filePath: string = process.env.PERSONAS_PATH || path.join(__dirname, '../../personas.json')) {
+    for (const persona of BUILT_IN_PERSONAS) {
+      this.personas.set(persona.id, persona);
+    }
+
+    for (const persona of this.loadFile(path.resolve(filePath))) {
+      this.personas.set(persona.id, persona);
+    }
+
+    if (!this.personas.has(DEFAULT_PERSONA_ID)) {
+      throw new Error(`Persona "${DEFAULT_PERSONA_ID}" must exist`);
+    }
+
+    console.log('[PERSONAS] Loaded personas:', [...this.personas.keys()].join(', '), this.source ? `(from ${this.source})` : '');
+  }
+
+  /**
+   * Get a persona by id
+   */
+  get(personaId: string): Persona | undefined {
+    return this.personas.get(personaId);
+  }
+
+  /**
+   * Get the persona new sessions start with
+   */
+  getDefault(): Persona {
+    return this.personas.get(DEFAULT_PERSONA_ID)!;
+  }
+
+  /**
+   * List all personas
+   */
+  list(): Persona[] {
+    return [...this.personas.values()];
+  }
+
+  /**
+   * Load personas from a JSON file (an array of persona objects)
+   * A missing file is fine; an invalid one stops the server
+   */
+  private loadFile(filePath: string): Persona[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to read personas file ${filePath}: ${reason}`);
+    }
+
+    if (!Array.isArray(raw)) {
+      throw new Error(`Invalid personas file (${filePath}): expected an array of personas`);
+    }
+
+    const errors: string[] = [];
+    const personas = raw.map((entry: any, index: number) => toPersona(entry, `personas[${index}]`, errors));
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid personas file (${filePath}):\n  - ${errors.join('\n  - ')}`);
+    }
+
+    this.source = filePath;
+    return personas;
+  }
+}
+
+/**
+ * Persona as sent to clients: everything but the system prompt
+ */
+export function toPersonaInfo(persona: Persona) {
+  const { systemPrompt, ...info } = persona;
+  return info;
+}
+
+/**
+ * Validate a persona entry and fill in defaults
+ */
+function toPersona(entry: any, prefix: string, errors: string[]): Persona {
+  for (const field of ['id', 'name', 'systemPrompt']) {
+    if (typeof entry?.[field] !== 'string' || !entry[field].trim()) {
+      errors.push(`${prefix}.${field} must be a non-empty string`);
+    }
+  }
+
+  if (entry?.id !== undefined && !/^[a-z0-9-]+$/.test(entry.id)) {
+    errors.push(`${prefix}.id may only contain lowercase letters, digits and dashes`);
+  }
+
+  const voice = entry?.voice ?? {};
+  for (const [field, min, max] of [['rate', 0.1, 10], ['pitch', 0, 2], ['volume', 0, 1]] as const) {
+    if (voice[field] !== undefined && (typeof voice[field] !== 'number' || voice[field] < min || voice[field] > max)) {
+      errors.push(`${prefix}.voice.${field} must be a number between ${min} and ${max}`);
+    }
+  }
+
+  return {
+    id: entry?.id,
+    name: entry?.name,
+    description: entry?.description ?? '',
+    systemPrompt: entry?.systemPrompt,
+    greeting: entry?.greeting ?? DEFAULT_GREETING,
+    voice,
+    avatar: entry?.avatar ?? { image: 'character' },
+  };
+}
+
+/**
+ * Export singleton instance
+ */
+export const personaRegistry = new PersonaRegistry();
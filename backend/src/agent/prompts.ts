@@ -79,20 +79,20 @@ export const ERROR_MESSAGES = {
 };
 
 /**
- * Contextual prompts for different scenarios
+ * Contextual instructions added to the active persona's system prompt
+ * firstInteraction: the user's first message in a session
+ * clarification: the user seems confused or the input was unintelligible
  */
 export const CONTEXTUAL_PROMPTS = {
-  firstInteraction: `${VOICE_AGENT_SYSTEM_PROMPT}
+  firstInteraction: `This is the user's first interaction. Greet them warmly and briefly explain you're an AI companion ready to chat.`,
 
-This is the user's first interaction. Greet them warmly and briefly explain you're an AI companion ready to chat.`,
+  followUp: '',
 
-  followUp: VOICE_AGENT_SYSTEM_PROMPT,
-
-  clarification: `${VOICE_AGENT_SYSTEM_PROMPT}
-
-The user seems confused. Ask a clarifying question to better understand what they need.`,
+  clarification: `The user seems confused. Ask a clarifying question to better understand what they need.`,
 };
 
+export type ConversationContext = keyof typeof CONTEXTUAL_PROMPTS;
+
 /**
  * Response guidelines for different types of queries
  */
@@ -102,3 +102,31 @@ export const RESPONSE_GUIDELINES = {
   conversationalTone: true,
   avoidMarkdown: true, // No formatting in voice responses
 };
+
+/**
+ * Prompt for the summarizer agent
+ * Folds turns that no longer fit the context window into a running summary
+ */
+export const SUMMARIZER_PROMPT = `You keep a running summary of a voice conversation between a user and an AI assistant.
+
+You will get the current summary (possibly empty) and older turns that are being removed from the conversation.
+Write an updated summary that merges both.
+
+Rules:
+- Keep facts about the user (name, preferences, plans), decisions, requests, and open questions
+- Mention tools the assistant used only when the outcome matters later
+- Drop greetings, small talk, and anything already resolved
+- Plain prose in the third person ("The user..."), no lists, no markdown
+- Stay under {maxWords} words
+
+Reply with the summary only.`;
+
+/**
+ * Prompt for the router when the user answers a follow-up question
+ * about a tool call that was missing required parameters
+ */
+export const SLOT_FILLING_PROMPT = `You asked the user: "{question}"
+This was to complete a call to the tool {tool}. Already known: {known}
+
+Read the user's answer and call {tool} with every parameter filled in.
+If the answer does not give the missing information, do not call any tool.`;
@@ -0,0 +1,323 @@
+/**
+ * Session Manager
+ * Gives every client its own isolated agent state (history, system prompt,
+ * tool emitter and pending tool executions) and cleans up idle sessions
+ * Transcripts are persisted, so a session can be resumed by id after it
+ * expired or the server restarted
+ */
+
+import { VoiceAgent, createAgentProviders, type AgentProviders } from './voice-agent.js';
+import { ResponsePipeline } from '../pipeline/response-pipeline.js';
+import { envConfig } from '../config/env.js';
+import { toolError, type ToolExecutionResult } from '../tools/registry.js';
+import type { ClientToolCapability } from '../tools/definitions.js';
+import { DEFAULT_USER_ID } from '../memory/fact-store.js';
+import { personaRegistry, type Persona } from './personas.js';
+import { transcriptStore, toStoredSession, toAgentState, type StoredSession } from '../memory/transcript-store.js';
+
+/**
+ * Frontend tool execution waiting for a 'tool-result' from the client
+ */
+export interface PendingToolExecution {
+  toolName: string;
+  resolve: (result: ToolExecutionResult) => void;
+}
+
+/**
+ * Turn currently being processed for a session
+ */
+export interface ActiveTurn {
+  turnId: string;
+  controller: AbortController;
+  done: Promise<void>;  // Settles once the turn has fully stopped
+}
+
+/**
+ * State owned by a single session
+ */
+export interface AgentSession {
+  id: string;
+  userId: string;
+  agent: VoiceAgent;
+  pipeline: ResponsePipeline;
+  pendingToolExecutions: Map<string, PendingToolExecution>;
+  clientTools: ClientToolCapability[];  // Frontend tools the connected client can run
+  activeTurn?: ActiveTurn;
+  socketId?: string;           // Set while a client is connected
+  ready: Promise<void>;        // Settles once a stored transcript has been restored
+  createdAt: Date;
+  lastActivityAt: Date;
+}
+
+/**
+ * SessionManager class
+ * Creates, tracks and expires per-session agents
+ * Model providers are stateless and shared by all sessions
+ */
+export class SessionManager {
+  private sessions = new Map<string, AgentSession>();
+  private providers: AgentProviders;
+  private idleTimeoutMs: number;
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(idleTimeoutMs: number = envConfig.sessionIdleTimeoutMs) {
+    this.providers = createAgentProviders();
+    this.idleTimeoutMs = idleTimeoutMs;
+
+    // Sweep for idle sessions once a minute (or faster for short timeouts)
+    const sweepIntervalMs = Math.min(60000, Math.max(1000, Math.floor(idleTimeoutMs / 2)));
+    this.cleanupTimer = setInterval(() => this.cleanupIdleSessions(), sweepIntervalMs);
+    this.cleanupTimer.unref();
+
+    console.log('[SESSIONS] Session manager initialized (idle timeout:', idleTimeoutMs, 'ms)');
+  }
+
+  /**
+   * Get an existing session or create a new one
+   * A new session resumes the stored transcript with the same id, if any
+   */
+  getOrCreate(sessionId: string): AgentSession {
+    let session = this.sessions.get(sessionId);
+
+    if (!session) {
+      const agent = new VoiceAgent(this.providers);
+      const created: AgentSession = {
+        id: sessionId,
+        userId: DEFAULT_USER_ID,
+        agent,
+        pipeline: new ResponsePipeline(agent),
+        pendingToolExecutions: new Map(),
+        clientTools: [],
+        ready: Promise.resolve(),
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      };
+      created.ready = this.restore(created);
+      session = created;
+      this.sessions.set(sessionId, session);
+      console.log('[SESSIONS] Created session:', sessionId, '- active sessions:', this.sessions.size);
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session by id
+   */
+  get(sessionId: string): AgentSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Get the sessions of a user that have a client connected
+   */
+  getConnected(userId: string): AgentSession[] {
+    return [...this.sessions.values()].filter(session => session.userId === userId && session.socketId);
+  }
+
+  /**
+   * Attach a connected socket (its user and the frontend tools it supports)
+   * to a session
+   */
+  attach(
+    sessionId: string,
+    socketId: string,
+    userId: string = DEFAULT_USER_ID,
+    clientTools: ClientToolCapability[] = []
+  ): AgentSession {
+    const session = this.getOrCreate(sessionId);
+    session.socketId = socketId;
+    session.userId = userId;
+    session.clientTools = clientTools;
+    session.agent.setUserId(userId);
+    session.agent.setClientTools(clientTools);
+    this.touch(session);
+    return session;
+  }
+
+  /**
+   * Detach the socket from a session
+   * The session is kept until it expires so the client can reconnect
+   */
+  detach(sessionId: string, socketId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.socketId !== socketId) {
+      return;
+    }
+
+    this.cancelPendingTools(session, 'The client disconnected before the tool finished');
+    session.socketId = undefined;
+    session.clientTools = [];
+    session.agent.setFrontendToolEmitter(undefined);
+    session.agent.setClientTools([]);
+    this.touch(session);
+  }
+
+  /**
+   * Mark a session as active
+   */
+  touch(session: AgentSession): void {
+    session.lastActivityAt = new Date();
+  }
+
+  /**
+   * Remove a session and cancel its pending tool executions
+   */
+  remove(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    session.activeTurn?.controller.abort();
+
+    this.cancelPendingTools(session, 'The session was closed');
+    session.agent.setFrontendToolEmitter(undefined);
+
+    this.sessions.delete(sessionId);
+    console.log('[SESSIONS] Removed session:', sessionId, '- active sessions:', this.sessions.size);
+    return true;
+  }
+
+  /**
+   * Switch a session's persona and persist the choice
+   */
+  async setPersona(session: AgentSession, personaId: string): Promise<Persona> {
+    const persona = personaRegistry.get(personaId);
+    if (!persona) {
+      throw new Error(`Unknown persona: ${personaId}`);
+    }
+
+    await session.ready;
+    session.agent.setPersona(persona);
+    this.touch(session);
+    await this.save(session);
+    return persona;
+  }
+
+  /**
+   * Persist a session's transcript
+   * Failures are logged, not thrown - the live session keeps working
+   */
+  async save(session: AgentSession): Promise<void> {
+    try {
+      await session.ready;
+      await transcriptStore.save(toStoredSession(session.agent.exportState(), session));
+    } catch (error) {
+      console.error('[SESSIONS] Failed to save session', session.id, ':', error);
+    }
+  }
+
+  /**
+   * Get a session's transcript, live if the session is active, otherwise
+   * from the store
+   */
+  async getTranscript(sessionId: string): Promise<StoredSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      await session.ready;
+      return toStoredSession(session.agent.exportState(), session);
+    }
+
+    return transcriptStore.load(sessionId);
+  }
+
+  /**
+   * Delete a session and its stored transcript
+   */
+  async delete(sessionId: string): Promise<boolean> {
+    const removed = this.remove(sessionId);
+    const deleted = await transcriptStore.delete(sessionId);
+    return removed || deleted;
+  }
+
+  /**
+   * Resolve the frontend tool executions still waiting for the client as unavailable
+   */
+  private cancelPendingTools(session: AgentSession, reason: string): void {
+    for (const [executionId, pending] of session.pendingToolExecutions) {
+      console.log('[SESSIONS] Cancelling tool execution', executionId, `(${pending.toolName}):`, reason);
+      pending.resolve(toolError('unavailable', reason));
+    }
+    session.pendingToolExecutions.clear();
+  }
+
+  /**
+   * Restore the stored transcript of a new session
+   */
+  private async restore(session: AgentSession): Promise<void> {
+    const stored = await transcriptStore.load(session.id);
+    if (!stored) {
+      return;
+    }
+
+    try {
+      session.agent.restoreState(toAgentState(stored));
+      session.createdAt = new Date(stored.createdAt);
+      console.log('[SESSIONS] Resumed session:', session.id, '-', stored.entries.length, 'stored entries');
+    } catch (error) {
+      console.error('[SESSIONS] Failed to restore session', session.id, ':', error);
+    }
+  }
+
+  /**
+   * Remove disconnected sessions that have been idle longer than the timeout
+   */
+  cleanupIdleSessions(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const session of [...this.sessions.values()]) {
+      const idleMs = now - session.lastActivityAt.getTime();
+      if (!session.socketId && idleMs > this.idleTimeoutMs) {
+        this.remove(session.id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      console.log('[SESSIONS] Cleaned up', removed, 'idle session(s)');
+    }
+
+    return removed;
+  }
+
+  /**
+   * Test the shared model connections
+   */
+  async testConnection(): Promise<boolean> {
+    return new VoiceAgent(this.providers).testConnection();
+  }
+
+  /**
+   * Get model information and session counts
+   * Session ids aren't listed: the endpoints showing this are public
+   */
+  getInfo() {
+    return {
+      router: this.providers.router.getModelInfo(),
+      conversation: this.providers.conversation.getModelInfo(),
+      summarizer: this.providers.summarizer.getModelInfo(),
+      sessions: {
+        active: this.sessions.size,
+        connected: [...this.sessions.values()].filter(s => s.socketId).length,
+        idleTimeoutMs: this.idleTimeoutMs,
+      },
+    };
+  }
+
+  /**
+   * Stop the cleanup timer and drop all sessions
+   */
+  shutdown(): void {
+    clearInterval(this.cleanupTimer);
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.remove(sessionId);
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const sessionManager = new SessionManager();
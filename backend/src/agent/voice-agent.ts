@@ -4,11 +4,37 @@
  * Supports function calling with FunctionGemma
  */
 
-import { OllamaProvider, type Message, type ToolCall } from '../models/ollama-provider.js';
+import type { LLMProvider, Message, ToolCall } from '../models/llm-provider.js';
+import { createLLMProvider } from '../models/provider-factory.js';
 import { getModelConfig } from '../config/models.js';
-import { VOICE_AGENT_SYSTEM_PROMPT } from './prompts.js';
-import { availableTools } from '../tools/definitions.js';
-import { toolRegistry, type FrontendToolEmitter } from '../tools/registry.js';
+import { CONTEXTUAL_PROMPTS, SLOT_FILLING_PROMPT, type ConversationContext } from './prompts.js';
+import { personaRegistry, type Persona } from './personas.js';
+import { ToolRegistry, toolError, type ExecuteToolOptions, type FrontendToolEmitter, type ToolExecutionResult } from '../tools/registry.js';
+import type { ClientToolCapability, Tool } from '../tools/definitions.js';
+import type { ArgumentValidation } from '../tools/argument-validator.js';
+import { envConfig } from '../config/env.js';
+import { ConversationMemory } from './conversation-memory.js';
+import { factStore, DEFAULT_USER_ID } from '../memory/fact-store.js';
+
+const MAX_PROMPT_FACTS = 5;  // Long-term memories added to the conversation prompt
+
+/**
+ * Replies that mean the user didn't follow the previous answer
+ */
+const CONFUSION_PATTERN = /\b(i don'?t (understand|get it)|what do you mean|i'?m (confused|lost)|(that )?makes no sense|come again|say that again)\b/i;
+const FILLER_PATTERN = /^(what|huh|eh|hm+|um+|uh+|sorry)\W*$/i;
+
+/**
+ * Answers to a follow-up question that drop the pending tool call
+ */
+const SLOT_CANCEL_PATTERN = /^(never ?mind|cancel|forget (it|that)|no thanks?|don'?t bother|stop)\b/i;
+const MAX_SLOT_ANSWER_WORDS = 5;  // Longer replies are not taken as a bare answer
+
+/**
+ * Answers to a confirmation question
+ */
+const CONFIRM_YES_PATTERN = /^(yes|yeah|yep|yup|sure|ok(ay)?|do it|go ahead|please do|confirm(ed)?|absolutely|of course)\b/i;
+const CONFIRM_NO_PATTERN = /^(no|nope|nah|don'?t|do not|cancel|stop|never ?mind|not now)\b/i;
 
 /**
  * Conversation history entry
@@ -17,148 +43,302 @@ export interface ConversationEntry {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  toolCalls?: ToolCallRecord[];  // Tools executed while producing an assistant entry
+  interrupted?: boolean;         // Assistant reply cut short by the user (barge-in)
+  processingTimeMs?: number;     // Time taken to produce an assistant entry
+  proactive?: boolean;           // Assistant entry pushed without a user message (e.g. a reminder)
+}
+
+/**
+ * A tool call executed during a turn, with its result
+ */
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, any>;
+  result: ToolExecutionResult;
+  decision?: ToolDecision;  // The user's answer, for tools with the 'confirm' policy
+}
+
+/**
+ * The user's yes/no for a tool with the 'confirm' policy
+ */
+export interface ToolDecision {
+  approved: boolean;
+  via: 'voice' | 'click';  // Said (or typed) in the next message, or clicked in the UI
+  decidedAt: string;
+}
+
+/**
+ * Tool call waiting for the user: for required parameters they left out,
+ * or for a yes/no before a tool with the 'confirm' policy runs
+ * Kept until the user answers the question
+ */
+export interface PendingToolCall {
+  name: string;
+  awaiting: 'parameters' | 'confirmation';
+  arguments: Record<string, any>;  // Parameters given so far
+  missing: string[];               // Required parameters still to ask for
+  question: string;                // Follow-up question asked (for missing[0], or yes/no)
+}
+
+/**
+ * Options for processing a single message
+ */
+export interface ProcessMessageOptions {
+  onChunk?: (chunk: string) => void;  // When set, the final response is streamed token by token
+  signal?: AbortSignal;               // Cancels the turn (router, tools loop and generation)
+  confirmation?: boolean;             // Yes/no clicked for a pending confirmation (instead of reading the message)
+}
+
+/**
+ * Progress of the turn being processed, kept so a cancelled turn can be
+ * recorded as interrupted with whatever was produced so far
+ */
+interface TurnProgress {
+  toolCalls: ToolCallRecord[];
+  content: string;
+  followUp?: string;  // Question for a missing tool parameter, asked instead of (or after) the reply
+}
+
+/**
+ * Snapshot of a conversation, used to persist and resume sessions
+ * The model context is always the last contextLength transcript entries;
+ * the ones before it are covered by the summary
+ */
+export interface AgentState {
+  transcript: ConversationEntry[];
+  summary: string;
+  contextLength: number;
+  personaId?: string;
+  pendingToolCall?: PendingToolCall;
+}
+
+/**
+ * Model providers used by the agent
+ * Stateless, so a single set is shared by every session
+ */
+export interface AgentProviders {
+  router: LLMProvider;       // FunctionGemma: detects if tools are needed
+  conversation: LLMProvider; // Gemma 2: handles conversation
+  summarizer: LLMProvider;   // Folds old turns into the running summary
+}
+
+/**
+ * Create the router, conversation and summarizer providers from the agent config
+ */
+export function createAgentProviders(): AgentProviders {
+  const routerConfig = getModelConfig('router');
+  const conversationConfig = getModelConfig('conversation');
+  const summarizerConfig = getModelConfig('summarizer');
+
+  console.log('[AGENT] Multi-agent providers initialized');
+  console.log('[AGENT] Router:', `${routerConfig.provider}/${routerConfig.model}`);
+  console.log('[AGENT] Conversation:', `${conversationConfig.provider}/${conversationConfig.model}`);
+  console.log('[AGENT] Summarizer:', `${summarizerConfig.provider}/${summarizerConfig.model}`);
+
+  return {
+    router: createLLMProvider(routerConfig),
+    conversation: createLLMProvider(conversationConfig),
+    summarizer: createLLMProvider(summarizerConfig),
+  };
 }
 
 /**
  * VoiceAgent class - Multi-Agent Architecture
  * Uses FunctionGemma as router for tool detection + Gemma 2 for conversation
  * This implements a router pattern for intelligent tool calling
+ *
+ * Each instance holds the state of one conversation (history, summary,
+ * system prompt, tool registry), so create one agent per session.
+ * Long-term memories belong to the user and outlive the session.
  */
 export class VoiceAgent {
-  private routerProvider: OllamaProvider;      // FunctionGemma: detects if tools are needed
-  private conversationProvider: OllamaProvider; // Gemma 2: handles conversation
-  private conversationHistory: ConversationEntry[] = [];
+  private routerProvider: LLMProvider;
+  private conversationProvider: LLMProvider;
+  private toolRegistry: ToolRegistry = new ToolRegistry();
+  private conversationHistory: ConversationEntry[] = [];  // Model context (compacted)
+  private transcript: ConversationEntry[] = [];           // Every entry of the conversation
   private systemPrompt: string;
-  private maxHistoryLength: number = 10; // Keep last 10 exchanges
-
-  constructor() {
-    // Initialize FunctionGemma as the router (tool detector)
-    const routerConfig = {
-      provider: 'ollama' as const,
-      baseUrl: 'http://localhost:11434',
-      model: 'functiongemma:latest',
-      temperature: 0.3,
-      maxTokens: 300,
-    };
+  private persona: Persona;
+  private memory: ConversationMemory;
+  private userId: string = DEFAULT_USER_ID;
+  private compaction: Promise<void> = Promise.resolve(); // Pending history compaction
+  private pendingToolCall?: PendingToolCall;              // Waiting for a follow-up answer
+  private maxToolIterations: number = envConfig.maxToolIterations;
+  private maxArgumentRepairs: number = envConfig.maxArgumentRepairs;
 
-    // Initialize Gemma 2 as the conversational agent
-    const conversationConfig = {
-      provider: 'ollama' as const,
-      baseUrl: 'http://localhost:11434',
-      model: 'gemma2:2b',
-      temperature: 0.7,
-      maxTokens: 500,
-    };
+  constructor(providers: AgentProviders = createAgentProviders()) {
+    this.routerProvider = providers.router;
+    this.conversationProvider = providers.conversation;
+    this.memory = new ConversationMemory(providers.summarizer);
+    this.persona = personaRegistry.getDefault();
+    this.systemPrompt = this.persona.systemPrompt;
+  }
+
+  /**
+   * Set frontend tool emitter for frontend-delegated tools
+   */
+  setFrontendToolEmitter(emitter: FrontendToolEmitter | undefined) {
+    this.toolRegistry.setFrontendToolEmitter(emitter);
+  }
 
-    this.routerProvider = new OllamaProvider(routerConfig);
-    this.conversationProvider = new OllamaProvider(conversationConfig);
-    this.systemPrompt = VOICE_AGENT_SYSTEM_PROMPT;
+  /**
+   * Set the frontend tools the connected client can run
+   */
+  setClientTools(tools: ClientToolCapability[]) {
+    this.toolRegistry.setClientTools(tools);
+  }
 
-    console.log('[AGENT] Multi-agent voice agent initialized');
-    console.log('[AGENT] Router: functiongemma:latest');
-    console.log('[AGENT] Conversation: gemma2:2b');
+  /**
+   * Get the tool schemas offered to the router in this session
+   */
+  getTools(): Promise<Tool[]> {
+    return this.toolRegistry.getTools();
   }
 
   /**
-   * Set frontend tool emitter for frontend-delegated tools
+   * Set the user whose long-term memories are used and updated
    */
-  setFrontendToolEmitter(emitter: FrontendToolEmitter) {
-    toolRegistry.setFrontendToolEmitter(emitter);
+  setUserId(userId: string) {
+    this.userId = userId;
+    this.toolRegistry.setUserId(userId);
+  }
+
+  /**
+   * Switch persona (system prompt, voice and avatar)
+   * The conversation so far is kept
+   */
+  setPersona(persona: Persona): void {
+    this.persona = persona;
+    this.systemPrompt = persona.systemPrompt;
+    console.log('[AGENT] Persona switched to:', persona.name);
+  }
+
+  /**
+   * Get the active persona
+   */
+  getPersona(): Persona {
+    return this.persona;
+  }
+
+  /**
+   * Get the tool call waiting for the user's answer, if any
+   */
+  getPendingToolCall(): PendingToolCall | undefined {
+    return this.pendingToolCall;
   }
 
   /**
    * Process user input using Multi-Agent Router Pattern
    *
    * Workflow:
-   * 1. FunctionGemma (Router): Detects if tool call is needed
-   * 2a. If tool needed: Execute tool → Gemma 2 generates natural response
+   * 1. FunctionGemma (Router): Detects if tool calls are needed, in a loop
+   *    - Tool results are fed back as 'tool' messages so it can chain calls
+   *    - Stops when it makes no new calls or hits maxToolIterations
+   * 2a. If tools ran: Gemma 2 generates a natural response about the results
    * 2b. If no tool: Gemma 2 handles conversation directly
+   *
+   * Pass options.onChunk to receive the final response as it streams in.
+   * Aborting options.signal cancels the turn; the partial reply is kept in
+   * history marked as interrupted.
+   *
+   * Once the reply is recorded, history over the token budget is folded into
+   * the running summary in the background; the next turn waits for it.
+   *
+   * When a tool call lacks a required parameter, the reply is a follow-up
+   * question and the call is kept; the next message fills it in and runs it.
    */
-  async processMessage(userInput: string): Promise<string> {
+  async processMessage(userInput: string, options: ProcessMessageOptions = {}): Promise<string> {
+    const progress: TurnProgress = { toolCalls: [], content: '' };
+    const startTime = Date.now();
+
+    // Never rejects - see compactHistory
+    await this.compaction;
+
     try {
       console.log('[AGENT] Processing message:', userInput);
       console.log('[AGENT] === MULTI-AGENT WORKFLOW START ===');
 
+      const context = selectContext(userInput, !this.transcript.some(entry => entry.role === 'user'));
+      if (context !== 'followUp') {
+        console.log('[AGENT] Conversation context:', context);
+      }
+
       // Add user message to history
       this.addToHistory('user', userInput);
 
-      // STEP 1: Use FunctionGemma as Router to detect if tool is needed
-      // IMPORTANT: Only send recent messages to avoid confusing the router
-      console.log('[AGENT] STEP 1: Router (FunctionGemma) checking for tool calls...');
-      const routerMessages: Message[] = [
-        { role: 'system', content: this.systemPrompt },
-        // Only include last 2 exchanges (4 messages) to keep router focused
-        ...this.conversationHistory.slice(-4).map(entry => ({
-          role: entry.role,
-          content: entry.content,
-        })),
-      ];
-      const routerResponse = await this.routerProvider.chat(routerMessages, availableTools);
-
-      // STEP 2: Check router's decision
-      if (routerResponse.message.tool_calls && routerResponse.message.tool_calls.length > 0) {
-        // BRANCH A: Tool detected - execute it and use Gemma 2 for response
-        console.log('[AGENT] ✓ Router detected tool call:', routerResponse.message.tool_calls[0].function.name);
-
-        // Execute each tool call
-        let toolResults: any[] = [];
-        for (const toolCall of routerResponse.message.tool_calls) {
-          const toolName = toolCall.function.name;
-          const toolArgs = typeof toolCall.function.arguments === 'string'
-            ? JSON.parse(toolCall.function.arguments)
-            : toolCall.function.arguments;
-
-          console.log('[AGENT] STEP 2A: Executing tool:', toolName, 'with args:', toolArgs);
-
-          const result = await toolRegistry.executeTool({
-            name: toolName,
-            parameters: toolArgs,
-          });
-
-          console.log('[AGENT] Tool result:', result);
-          toolResults.push(result);
+      // STEP 1: Complete a tool call from the last follow-up question, or use
+      // FunctionGemma as Router to run any needed tools
+      // The call stays pending until the answer has been handled, so a failed
+      // or interrupted turn leaves the question open
+      const pending = this.pendingToolCall;
+      let resumed: ToolCallRecord[] | undefined;
+      if (pending) {
+        resumed = await this.resumePendingCall(pending, userInput, progress, options);
+        if (this.pendingToolCall === pending) {
+          this.pendingToolCall = undefined;
         }
+      }
+
+      const toolCalls = resumed || await this.runToolLoop(progress, options.signal);
+
+      if (toolCalls.length === 0 && progress.followUp) {
+        // BRANCH C: A tool needs more information - ask for it
+        console.log('[AGENT] ? Missing tool parameters - asking a follow-up question');
+        const question = progress.followUp;
+        progress.content = question;
+        options.onChunk?.(question);
 
-        // STEP 3: Use Gemma 2 to generate natural response about tool execution
-        console.log('[AGENT] STEP 3: Gemma 2 generating natural response...');
+        this.addToHistory('assistant', question, { processingTimeMs: Date.now() - startTime });
+        this.scheduleCompaction();
+
+        console.log('[AGENT] === WORKFLOW COMPLETE (Follow-up question) ===');
+        return question;
+
+      } else if (toolCalls.length > 0) {
+        // BRANCH A: Tools executed - use Gemma 2 for response
+        // STEP 2A: Use Gemma 2 to generate natural response about tool execution
+        console.log('[AGENT] STEP 2A: Gemma 2 generating natural response...');
+
+        // Tool results go into the system prompt - Gemma 2 has no tool role
+        const toolSummary = toolCalls
+          .map(call => `- ${this.toolRegistry.summarizeResult(call.name, call.result, call.arguments)}`)
+          .join('\n');
 
         // Build context-aware messages with conversation history
         const responseMessages: Message[] = [
           {
             role: 'system',
-            content: this.systemPrompt + '\n\nIMPORTANT: A tool was just executed for the user. Acknowledge what you did in a natural, friendly way.'
+            content: `${this.buildSystemPrompt(userInput, context)}\n\nIMPORTANT: These tools were just executed for the user's latest message:\n${toolSummary}\n\nAcknowledge what you did in a natural, friendly way. If a tool failed, briefly explain what went wrong.`,
           },
         ];
 
         // Add conversation history for context
         for (const entry of this.conversationHistory.slice(-6)) { // Last 3 exchanges
-          responseMessages.push({
-            role: entry.role,
-            content: entry.content,
-          });
+          responseMessages.push(toModelMessage(entry));
         }
 
-        // Add tool execution context
-        const toolSummary = toolResults.map(r => {
-          if (r.result?.color) {
-            return `Changed background color to ${r.result.color}`;
-          }
-          return JSON.stringify(r);
-        }).join(', ');
+        let finalResponse = await this.generateResponse(responseMessages, options, progress);
 
-        responseMessages.push({
-          role: 'user',
-          content: `[SYSTEM: Tool executed - ${toolSummary}] Now respond naturally to acknowledge what you just did.`
-        });
+        // Name the documents the answer came from, if the reply didn't
+        const credit = this.toolRegistry.describeSources(toolCalls, finalResponse);
+        if (credit) {
+          finalResponse += ` ${credit}`;
+          progress.content += ` ${credit}`;
+          options.onChunk?.(` ${credit}`);
+        }
 
-        const conversationResponse = await this.conversationProvider.chat(responseMessages);
-        const finalResponse = conversationResponse.message.content;
+        // Another call in the same turn still needs an answer from the user
+        if (progress.followUp) {
+          const question = ` ${progress.followUp}`;
+          finalResponse += question;
+          progress.content += question;
+          options.onChunk?.(question);
+        }
 
         // Add to history
-        this.addToHistory('assistant', finalResponse);
-
-        // Trim history if needed
-        this.trimHistory();
+        this.addToHistory('assistant', finalResponse, { toolCalls, processingTimeMs: Date.now() - startTime });
+        this.scheduleCompaction();
 
         console.log('[AGENT] === WORKFLOW COMPLETE (Tool + Response) ===');
         return finalResponse;
@@ -169,71 +349,546 @@ export class VoiceAgent {
         console.log('[AGENT] STEP 2B: Gemma 2 handling conversation...');
 
         // Build full conversation messages for Gemma 2
-        const conversationMessages = this.buildMessagesArray();
-        const conversationResponse = await this.conversationProvider.chat(conversationMessages);
-        const finalResponse = conversationResponse.message.content;
+        const conversationMessages = this.buildMessagesArray(userInput, context);
+        const finalResponse = await this.generateResponse(conversationMessages, options, progress);
 
         // Add to history
-        this.addToHistory('assistant', finalResponse);
+        this.addToHistory('assistant', finalResponse, { processingTimeMs: Date.now() - startTime });
+        this.scheduleCompaction();
 
         console.log('[AGENT] === WORKFLOW COMPLETE (Conversation) ===');
         return finalResponse;
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        // Keep the half-finished reply, but don't present it as a complete answer
+        this.addToHistory('assistant', progress.content, {
+          toolCalls: progress.toolCalls.length > 0 ? progress.toolCalls : undefined,
+          interrupted: true,
+          processingTimeMs: Date.now() - startTime,
+        });
+        this.scheduleCompaction();
+        console.log('[AGENT] === WORKFLOW CANCELLED (interrupted after', progress.content.length, 'chars) ===');
+        throw new Error('Turn cancelled');
+      }
+
       console.error('[AGENT] Error processing message:', error);
       throw new Error(`Failed to process message: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Router tool loop
+   * Asks the router for tool calls, executes them and feeds the results back
+   * as 'tool' messages until it stops calling tools or the iteration limit is hit
+   *
+   * Arguments are validated against the tool's schema first. Invalid calls
+   * are not executed; the validation error goes back to the router so it can
+   * fix them, at most maxArgumentRepairs times per turn. After that the turn
+   * carries on with the calls that did run (or as plain conversation).
+   */
+  private async runToolLoop(progress: TurnProgress, signal?: AbortSignal): Promise<ToolCallRecord[]> {
+    // IMPORTANT: Only send recent messages to avoid confusing the router
+    const routerMessages: Message[] = [
+      { role: 'system', content: this.systemPrompt },
+      // Only include last 2 exchanges (4 messages) to keep router focused
+      ...this.conversationHistory.slice(-4).map(toModelMessage),
+    ];
+    const executed = progress.toolCalls;
+    const tools = await this.toolRegistry.getTools();
+    let iteration = 0;
+    let repairs = 0;  // Router rounds spent fixing invalid arguments
+
+    while (iteration < this.maxToolIterations) {
+      const round = iteration + repairs + 1;
+      console.log(`[AGENT] STEP 1.${round}: Router (FunctionGemma) checking for tool calls...`);
+      const routerResponse = await this.routerProvider.chat(routerMessages, tools, { signal });
+
+      // Small routers tend to repeat a call after seeing its result - treat that as done
+      // Every call gets an id so its 'tool' message can reference it
+      const newCalls = (routerResponse.message.tool_calls || [])
+        .filter(toolCall => !executed.some(record => isSameCall(record, toolCall)))
+        .map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `call_${round}_${index}` }));
+
+      if (newCalls.length === 0) {
+        break;
+      }
+
+      console.log('[AGENT] ✓ Router requested tool calls:', newCalls.map(tc => tc.function.name).join(', '));
+
+      routerMessages.push({
+        role: 'assistant',
+        content: routerResponse.message.content,
+        tool_calls: newCalls,
+      });
+
+      let invalidCalls = 0;
+      for (const toolCall of newCalls) {
+        signal?.throwIfAborted();
+
+        const validation = this.validateToolCall(toolCall);
+        const needsConfirmation = validation.errors.length === 0
+          && this.toolRegistry.getPolicy(toolCall.function.name) === 'confirm';
+
+        // Only one question can be open at a time: a second call that needs
+        // one is reported as not run, so the reply can tell the user to ask again
+        if (this.pendingToolCall && (isMissingOnly(validation) || needsConfirmation)) {
+          console.log('[AGENT] Deferring tool call', toolCall.function.name, '- waiting for an answer about', this.pendingToolCall.name);
+          const record: ToolCallRecord = {
+            name: toolCall.function.name,
+            arguments: validation.value,
+            result: toolError('unavailable', `another action (${this.pendingToolCall.name}) is waiting for the user's answer; ask again once it is settled`),
+          };
+          executed.push(record);
+          routerMessages.push({
+            role: 'tool',
+            tool_name: record.name,
+            tool_call_id: toolCall.id,
+            content: JSON.stringify(toToolMessage(record)),
+          });
+          continue;
+        }
+
+        // Only required parameters missing: ask the user rather than the router
+        if (isMissingOnly(validation)) {
+          this.pendingToolCall = this.createPendingCall(toolCall.function.name, validation);
+          progress.followUp = this.pendingToolCall.question;
+          continue;
+        }
+
+        if (validation.errors.length > 0) {
+          invalidCalls++;
+          routerMessages.push({
+            role: 'tool',
+            tool_name: toolCall.function.name,
+            tool_call_id: toolCall.id,
+            content: JSON.stringify(toValidationMessage(toolCall.function.name, validation)),
+          });
+          continue;
+        }
+
+        // Sensitive tools wait for the user's yes
+        if (needsConfirmation) {
+          this.pendingToolCall = this.createConfirmation(toolCall.function.name, validation.value);
+          progress.followUp = this.pendingToolCall.question;
+          continue;
+        }
+
+        const record = await this.executeToolCall(toolCall.function.name, validation.value, { signal });
+        executed.push(record);
+
+        routerMessages.push({
+          role: 'tool',
+          tool_name: record.name,
+          tool_call_id: toolCall.id,
+          content: JSON.stringify(toToolMessage(record)),
+        });
+      }
+
+      // Further router rounds would only guess at what the user is being asked
+      if (this.pendingToolCall) {
+        break;
+      }
+
+      if (invalidCalls > 0) {
+        if (repairs >= this.maxArgumentRepairs) {
+          console.log('[AGENT] Tool arguments still invalid after', repairs, 'repair attempt(s) - continuing without those calls');
+          break;
+        }
+        repairs++;
+
+        // A round in which nothing ran doesn't use up a tool iteration
+        if (invalidCalls === newCalls.length) {
+          continue;
+        }
+      }
+
+      iteration++;
+      if (iteration === this.maxToolIterations) {
+        console.log('[AGENT] Reached max tool iterations:', this.maxToolIterations);
+      }
+    }
+
+    return executed;
+  }
+
+  /**
+   * Parse a tool call's arguments and check them against the tool's schema
+   */
+  private validateToolCall(toolCall: ToolCall): ArgumentValidation {
+    const name = toolCall.function.name;
+    let args: Record<string, any>;
+
+    try {
+      args = parseToolArguments(toolCall);
+    } catch (error) {
+      console.log('[AGENT] Unparseable tool arguments for', name, ':', toolCall.function.arguments);
+      return {
+        value: {},
+        errors: [`arguments are not a valid JSON object (${error instanceof Error ? error.message : 'could not parse JSON'})`],
+        missing: [],
+        repairs: [],
+      };
+    }
+
+    const validation = this.toolRegistry.validateCall({ name, parameters: args });
+    if (validation.errors.length > 0) {
+      console.log('[AGENT] Invalid tool arguments for', name, ':', validation.errors.join('; '));
+    }
+    if (validation.repairs.length > 0) {
+      console.log('[AGENT] Repaired tool arguments for', name, ':', validation.repairs.join('; '));
+    }
+
+    return validation;
+  }
+
+  /**
+   * Keep a tool call that lacks required parameters and phrase the question
+   * for the first one
+   */
+  private createPendingCall(name: string, validation: ArgumentValidation): PendingToolCall {
+    const pending: PendingToolCall = {
+      name,
+      awaiting: 'parameters',
+      arguments: validation.value,
+      missing: validation.missing,
+      question: this.toolRegistry.getFollowUpQuestion(name, validation.missing[0]),
+    };
+    console.log('[AGENT] Pending tool call', name, '- missing:', pending.missing.join(', '));
+    return pending;
+  }
+
+  /**
+   * Keep a tool call with the 'confirm' policy until the user says yes or no
+   */
+  private createConfirmation(name: string, args: Record<string, any>): PendingToolCall {
+    console.log('[AGENT] Tool call', name, 'needs confirmation');
+    return {
+      name,
+      awaiting: 'confirmation',
+      arguments: args,
+      missing: [],
+      question: this.toolRegistry.getConfirmationQuestion(name, args),
+    };
+  }
+
+  /**
+   * Complete a pending tool call with the user's answer and run it
+   * Returns undefined when the answer doesn't fill it (or cancels it), so the
+   * message is handled as a new request instead
+   */
+  private async resumePendingCall(
+    pending: PendingToolCall,
+    userInput: string,
+    progress: TurnProgress,
+    options: ProcessMessageOptions
+  ): Promise<ToolCallRecord[] | undefined> {
+    if (pending.awaiting === 'confirmation') {
+      return this.resumeConfirmation(pending, userInput, progress, options);
+    }
+
+    if (SLOT_CANCEL_PATTERN.test(userInput.trim())) {
+      console.log('[AGENT] Pending tool call cancelled:', pending.name);
+      return undefined;
+    }
+
+    const args = await this.fillPendingCall(pending, userInput, options.signal);
+    const validation = this.toolRegistry.validateCall({ name: pending.name, parameters: args });
+
+    if (validation.errors.length === 0 && this.toolRegistry.getPolicy(pending.name) === 'confirm') {
+      this.pendingToolCall = this.createConfirmation(pending.name, validation.value);
+      progress.followUp = this.pendingToolCall.question;
+      return progress.toolCalls;
+    }
+
+    if (validation.errors.length === 0) {
+      console.log('[AGENT] Pending tool call completed:', pending.name, args);
+      const record = await this.executeToolCall(pending.name, validation.value, { signal: options.signal });
+      progress.toolCalls.push(record);
+      return progress.toolCalls;
+    }
+
+    // Some answers filled, more to ask for
+    if (isMissingOnly(validation) && validation.missing.length < pending.missing.length) {
+      this.pendingToolCall = this.createPendingCall(pending.name, validation);
+      progress.followUp = this.pendingToolCall.question;
+      return progress.toolCalls;
+    }
+
+    console.log('[AGENT] Answer did not complete pending tool call', pending.name, '- handling as a new request');
+    return undefined;
+  }
+
+  /**
+   * Run or drop a tool call that was waiting for the user's yes/no
+   * The decision is kept with the call's record. An answer that is neither
+   * drops the call and is handled as a new request.
+   */
+  private async resumeConfirmation(
+    pending: PendingToolCall,
+    userInput: string,
+    progress: TurnProgress,
+    options: ProcessMessageOptions
+  ): Promise<ToolCallRecord[] | undefined> {
+    const clicked = options.confirmation;
+    const approved = clicked ?? toConfirmation(userInput);
+    if (approved === undefined) {
+      console.log('[AGENT] No yes/no for', pending.name, '- handling as a new request');
+      return undefined;
+    }
+
+    const decision: ToolDecision = {
+      approved,
+      via: clicked === undefined ? 'voice' : 'click',
+      decidedAt: new Date().toISOString(),
+    };
+    console.log('[AGENT] User', approved ? 'approved' : 'declined', pending.name, `(${decision.via})`);
+
+    const record: ToolCallRecord = approved
+      ? await this.executeToolCall(pending.name, pending.arguments, { confirmed: true, signal: options.signal })
+      : {
+          name: pending.name,
+          arguments: pending.arguments,
+          result: { success: false, error: 'The user said no, so it was not done', errorCode: 'rejected' },
+        };
+    record.decision = decision;
+
+    progress.toolCalls.push(record);
+    return progress.toolCalls;
+  }
+
+  /**
+   * Work out the missing parameters from the user's answer
+   * The router extracts them; a short answer to a single text parameter is
+   * used as it is when the router doesn't
+   */
+  private async fillPendingCall(pending: PendingToolCall, userInput: string, signal?: AbortSignal): Promise<Record<string, any>> {
+    const args = { ...pending.arguments };
+    const tool = this.toolRegistry.getDefinition(pending.name);
+    if (!tool) {
+      return args;
+    }
+
+    try {
+      const prompt = SLOT_FILLING_PROMPT
+        .replace('{question}', pending.question)
+        .replace(/\{tool\}/g, pending.name)
+        .replace('{known}', JSON.stringify(pending.arguments));
+
+      const response = await this.routerProvider.chat([
+        { role: 'system', content: prompt },
+        { role: 'user', content: userInput },
+      ], [tool], { signal });
+
+      const call = response.message.tool_calls?.find(toolCall => toolCall.function.name === pending.name);
+      if (call) {
+        for (const [key, value] of Object.entries(parseToolArguments(call))) {
+          if (value !== null && value !== undefined && value !== '') {
+            args[key] = value;
+          }
+        }
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error('[AGENT] Router failed to fill pending tool call:', error);
+    }
+
+    const [parameter] = pending.missing;
+    if (pending.missing.length === 1 && args[parameter] === undefined) {
+      const answer = toSlotAnswer(userInput);
+      const type = tool.function.parameters.properties[parameter]?.type;
+      if (answer && (type === 'string' || type === 'number' || type === 'integer')) {
+        args[parameter] = answer;
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Execute a single validated tool call
+   * Never throws - failures are returned as structured results for the model
+   */
+  private async executeToolCall(name: string, args: Record<string, any>, options: ExecuteToolOptions = {}): Promise<ToolCallRecord> {
+    console.log('[AGENT] Executing tool:', name, 'with args:', args);
+
+    const result = await this.toolRegistry.executeTool({ name, parameters: args }, options);
+    options.signal?.throwIfAborted();
+
+    console.log('[AGENT] Tool result:', result);
+    return { name, arguments: args, result };
+  }
+
+  /**
+   * Generate the conversation agent's reply, streaming it when a chunk handler is given
+   */
+  private async generateResponse(messages: Message[], options: ProcessMessageOptions, progress: TurnProgress): Promise<string> {
+    const { onChunk, signal } = options;
+    signal?.throwIfAborted();
+
+    if (!onChunk) {
+      const response = await this.conversationProvider.chat(messages, undefined, { signal });
+      return response.message.content;
+    }
+
+    for await (const chunk of this.conversationProvider.chatStream(messages, { signal })) {
+      signal?.throwIfAborted();
+      progress.content += chunk;
+      onChunk(chunk);
+    }
+    return progress.content;
+  }
+
+  /**
+   * System prompt plus the long-term memories relevant to the user's message
+   */
+  private buildPromptWithFacts(query: string): string {
+    const facts = factStore.selectForPrompt(this.userId, query, MAX_PROMPT_FACTS);
+    if (facts.length === 0) {
+      return this.systemPrompt;
+    }
+
+    const factList = facts.map(fact => `- ${fact.content}`).join('\n');
+    return `${this.systemPrompt}\n\nWhat you remember about the user from earlier conversations:\n${factList}`;
+  }
+
+  /**
+   * System prompt for the conversation agent, with relevant long-term
+   * memories, the running summary of turns that no longer fit in the history
+   * and the instruction for the conversation context
+   */
+  private buildSystemPrompt(query: string = '', context: ConversationContext = 'followUp'): string {
+    const sections = [this.buildPromptWithFacts(query)];
+
+    const summary = this.memory.getSummary();
+    if (summary) {
+      sections.push(`Summary of the earlier conversation:\n${summary}`);
+    }
+
+    if (CONTEXTUAL_PROMPTS[context]) {
+      sections.push(CONTEXTUAL_PROMPTS[context]);
+    }
+
+    return sections.join('\n\n');
+  }
+
   /**
    * Build messages array including system prompt and conversation history
    */
-  private buildMessagesArray(): Message[] {
+  private buildMessagesArray(query: string, context: ConversationContext): Message[] {
     const messages: Message[] = [
       {
         role: 'system',
-        content: this.systemPrompt,
+        content: this.buildSystemPrompt(query, context),
       },
     ];
 
     // Add conversation history
     for (const entry of this.conversationHistory) {
-      messages.push({
-        role: entry.role,
-        content: entry.content,
-      });
+      messages.push(toModelMessage(entry));
     }
 
     return messages;
   }
 
   /**
-   * Add message to conversation history
+   * Add message to conversation history and the transcript
    */
-  private addToHistory(role: 'user' | 'assistant', content: string): void {
-    this.conversationHistory.push({
+  private addToHistory(
+    role: 'user' | 'assistant',
+    content: string,
+    extras: Pick<ConversationEntry, 'toolCalls' | 'interrupted' | 'processingTimeMs' | 'proactive'> = {},
+  ): void {
+    const entry: ConversationEntry = {
       role,
       content,
       timestamp: new Date(),
-    });
+      ...(extras.toolCalls && { toolCalls: extras.toolCalls }),
+      ...(extras.interrupted && { interrupted: true }),
+      ...(extras.processingTimeMs !== undefined && { processingTimeMs: extras.processingTimeMs }),
+      ...(extras.proactive && { proactive: true }),
+    };
+
+    this.conversationHistory.push(entry);
+    this.transcript.push(entry);
   }
 
   /**
-   * Trim conversation history to maintain context window
+   * Queue a history compaction after the current one
    */
-  private trimHistory(): void {
-    if (this.conversationHistory.length > this.maxHistoryLength * 2) {
-      // Keep only recent exchanges (each exchange = user + assistant message)
-      this.conversationHistory = this.conversationHistory.slice(-this.maxHistoryLength * 2);
-      console.log('[AGENT] Trimmed conversation history');
+  private scheduleCompaction(): void {
+    this.compaction = this.compaction.then(() => this.compactHistory());
+  }
+
+  /**
+   * Fold the oldest turns into the running summary when the history is over
+   * its token budget, so the conversation model stays inside its numCtx
+   */
+  private async compactHistory(): Promise<void> {
+    const history = this.conversationHistory;
+
+    try {
+      const result = await this.memory.compact(history, this.buildPromptWithFacts(''));
+
+      // Skip if the history was cleared while the summarizer was running
+      if (!result || this.conversationHistory !== history) {
+        return;
+      }
+
+      this.conversationHistory = history.slice(result.foldedCount);
+      this.memory.setSummary(result.summary);
+      console.log('[AGENT] Compacted conversation history:', this.conversationHistory.length, 'entries kept');
+    } catch (error) {
+      console.error('[AGENT] History compaction failed:', error);
     }
   }
 
   /**
-   * Get conversation history
+   * Record a message the assistant says on its own, such as a due reminder,
+   * so later turns know it was said
+   */
+  addProactiveMessage(content: string): void {
+    this.addToHistory('assistant', content, { proactive: true });
+    this.scheduleCompaction();
+  }
+
+  /**
+   * Get the conversation transcript, including turns already folded into
+   * the summary
    */
   getHistory(): ConversationEntry[] {
-    return [...this.conversationHistory];
+    return [...this.transcript];
+  }
+
+  /**
+   * Snapshot the conversation so it can be persisted
+   */
+  exportState(): AgentState {
+    return {
+      transcript: [...this.transcript],
+      summary: this.memory.getSummary(),
+      contextLength: this.conversationHistory.length,
+      personaId: this.persona.id,
+      pendingToolCall: this.pendingToolCall,
+    };
+  }
+
+  /**
+   * Resume a conversation from a snapshot
+   */
+  restoreState(state: AgentState): void {
+    const contextLength = Math.min(state.contextLength, state.transcript.length);
+
+    this.transcript = [...state.transcript];
+    this.conversationHistory = this.transcript.slice(this.transcript.length - contextLength);
+    this.memory.setSummary(state.summary);
+    this.pendingToolCall = state.pendingToolCall;
+
+    const persona = state.personaId ? personaRegistry.get(state.personaId) : undefined;
+    if (persona) {
+      this.setPersona(persona);
+    }
+    console.log('[AGENT] Restored conversation:', this.transcript.length, 'entries,', contextLength, 'in context');
   }
 
   /**
@@ -241,6 +896,9 @@ export class VoiceAgent {
    */
   clearHistory(): void {
     this.conversationHistory = [];
+    this.transcript = [];
+    this.pendingToolCall = undefined;
+    this.memory.clear();
     console.log('[AGENT] Conversation history cleared');
   }
 
@@ -278,12 +936,147 @@ export class VoiceAgent {
       router: this.routerProvider.getModelInfo(),
       conversation: this.conversationProvider.getModelInfo(),
       historyLength: this.conversationHistory.length,
-      maxHistoryLength: this.maxHistoryLength,
+      transcriptLength: this.transcript.length,
+      pendingToolCall: this.pendingToolCall,
+      historyTokens: this.memory.countTokens(this.conversationHistory),
+      historyTokenBudget: this.memory.getHistoryBudget(this.buildPromptWithFacts('')),
+      summary: this.memory.getSummary(),
+      userId: this.userId,
+      persona: { id: this.persona.id, name: this.persona.name },
+      maxToolIterations: this.maxToolIterations,
+      maxArgumentRepairs: this.maxArgumentRepairs,
     };
   }
 }
 
 /**
- * Create and export a singleton instance
+ * Pick the contextual prompt variant for a user message
  */
-export const voiceAgent = new VoiceAgent();
+function selectContext(userInput: string, isFirstMessage: boolean): ConversationContext {
+  if (isFirstMessage) {
+    return 'firstInteraction';
+  }
+
+  const trimmed = userInput.trim();
+  if (CONFUSION_PATTERN.test(trimmed) || FILLER_PATTERN.test(trimmed) || !/[\p{L}\p{N}]/u.test(trimmed)) {
+    return 'clarification';
+  }
+
+  return 'followUp';
+}
+
+/**
+ * Convert a history entry to a model message
+ * Interrupted replies end with an ellipsis so the model sees they were cut off
+ */
+function toModelMessage(entry: ConversationEntry): Message {
+  return {
+    role: entry.role,
+    content: entry.interrupted ? `${entry.content.trim()}...` : entry.content,
+  };
+}
+
+/**
+ * Parse tool call arguments (Ollama sends an object, other APIs a JSON string)
+ */
+function parseToolArguments(toolCall: ToolCall): Record<string, any> {
+  const args = toolCall.function.arguments;
+  const parsed = typeof args === 'string' ? (args.trim() ? JSON.parse(args) : {}) : args;
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('arguments must be a JSON object');
+  }
+
+  return parsed;
+}
+
+/**
+ * Check if a requested call matches one already executed this turn
+ */
+function isSameCall(record: ToolCallRecord, toolCall: ToolCall): boolean {
+  if (record.name !== toolCall.function.name) {
+    return false;
+  }
+
+  try {
+    return JSON.stringify(record.arguments) === JSON.stringify(parseToolArguments(toolCall));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the structured content of a 'tool' message for the router
+ */
+function toToolMessage(record: ToolCallRecord) {
+  if (record.result.success) {
+    return {
+      tool: record.name,
+      status: 'success',
+      result: record.result.result ?? null,
+    };
+  }
+
+  return {
+    tool: record.name,
+    status: 'error',
+    errorCode: record.result.errorCode ?? 'failed',
+    error: record.result.error || 'Unknown error',
+    arguments: record.arguments,
+    hint: 'The call failed. Retry with corrected arguments, try a different tool, or stop calling tools.',
+  };
+}
+
+/**
+ * Whether the only problem with a call is required parameters left out
+ */
+function isMissingOnly(validation: ArgumentValidation): boolean {
+  return validation.missing.length > 0 && validation.errors.length === validation.missing.length;
+}
+
+/**
+ * Take a short reply to a follow-up question as the answer itself
+ * ("blue please." -> "blue"); longer replies and questions are not answers
+ */
+function toSlotAnswer(userInput: string): string | undefined {
+  const answer = userInput
+    .trim()
+    .replace(/^(um+|uh+|ok(ay)?|well|let'?s (go with|do|use)|make it|use|i'?d like|i want|how about)\b[\s,]*/i, '')
+    .replace(/[\s,]*\b(please|thanks|thank you)\b/gi, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+
+  if (!answer || userInput.trim().endsWith('?') || answer.split(/\s+/).length > MAX_SLOT_ANSWER_WORDS) {
+    return undefined;
+  }
+
+  return answer;
+}
+
+/**
+ * Read a yes or no from the user's reply (undefined if it is neither)
+ */
+function toConfirmation(userInput: string): boolean | undefined {
+  const answer = userInput.trim();
+  if (CONFIRM_NO_PATTERN.test(answer)) {
+    return false;
+  }
+  if (CONFIRM_YES_PATTERN.test(answer)) {
+    return true;
+  }
+  return undefined;
+}
+
+/**
+ * Build the content of a 'tool' message for a call that was not executed
+ * because its arguments don't match the tool's schema
+ */
+function toValidationMessage(name: string, validation: ArgumentValidation) {
+  return {
+    tool: name,
+    status: 'invalid_arguments',
+    error: `Invalid arguments: ${validation.errors.join('; ')}`,
+    arguments: validation.value,
+    hint: 'The call was not executed. Call the tool again with arguments that match its parameters, or stop calling tools.',
+  };
+}
@@ -0,0 +1,492 @@
+/**
+ * Agent Topology Configuration
+ * Loads the agents (router, conversation, summarizer), the memory
+ * settings, the tool policies, the knowledge base settings and the MCP
+ * servers from agents.config.json, applies environment overrides and
+ * validates the result at startup
+ * Each agent can use its own provider (Ollama or an OpenAI-compatible server)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import './env.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type AgentName = 'router' | 'conversation' | 'summarizer';
+
+export const AGENT_NAMES: AgentName[] = ['router', 'conversation', 'summarizer'];
+
+export type ProviderName = 'ollama' | 'openai';
+
+export const PROVIDER_NAMES: ProviderName[] = ['ollama', 'openai'];
+
+/**
+ * Settings for a single agent's model
+ */
+export interface AgentModelConfig {
+  provider: ProviderName;     // 'openai' = any OpenAI-compatible /v1/chat/completions server
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  numCtx?: number;            // Ollama num_ctx (context window in tokens)
+  keepAlive?: string | number; // Ollama keep_alive (e.g. "10m", or seconds)
+  stopSequences?: string[];
+}
+
+/**
+ * Conversation memory settings
+ * History is kept within the conversation model's numCtx; older turns are
+ * folded into a running summary written by the summarizer agent
+ */
+export interface MemoryConfig {
+  maxHistoryTokens?: number;  // Optional cap below what numCtx allows
+  summaryMaxTokens: number;   // Room reserved for the running summary
+}
+
+/**
+ * How a tool call is handled when the router asks for it
+ * auto: run it, confirm: ask the user first, deny: never run it
+ */
+export type ToolPolicy = 'auto' | 'confirm' | 'deny';
+
+export const TOOL_POLICIES: ToolPolicy[] = ['auto', 'confirm', 'deny'];
+
+/**
+ * Document knowledge base settings
+ * Markdown and text files in the directory are chunked and embedded with an
+ * Ollama embedding model for the searchKnowledge tool
+ */
+export interface KnowledgeConfig {
+  directory: string;           // Documents to index (resolved against the config file)
+  embeddingModel: string;      // Ollama embedding model, e.g. "nomic-embed-text"
+  baseUrl: string;             // Ollama server that runs the embedding model
+  chunkTokens: number;         // Target size of a chunk
+  chunkOverlapTokens: number;  // Text repeated from the end of the previous chunk
+  topK: number;                // Passages returned per search
+  minScore: number;            // Cosine similarity below which passages are dropped
+}
+
+export type McpTransport = 'stdio' | 'http';
+
+export const MCP_TRANSPORTS: McpTransport[] = ['stdio', 'http'];
+
+/**
+ * A Model Context Protocol server whose tools are offered to the router
+ * stdio servers are started as a child process (same shape as other
+ * assistants' "mcpServers" entries); http servers use streamable HTTP
+ */
+export interface McpServerConfig {
+  type: McpTransport;                // Inferred from "command" or "url" when left out
+  command?: string;                  // stdio: executable to run
+  args?: string[];
+  env?: Record<string, string>;      // Added to a minimal inherited environment
+  cwd?: string;
+  url?: string;                      // http: endpoint of the server
+  headers?: Record<string, string>;  // e.g. Authorization
+  toolPrefix?: string;               // Put before the server's tool names, to avoid clashes
+  timeoutMs: number;                 // How long one tool call may take
+}
+
+export interface AgentTopologyConfig {
+  source: string;  // Path of the loaded config file
+  agents: Record<AgentName, AgentModelConfig>;
+  memory: MemoryConfig;
+  toolPolicies: Record<string, ToolPolicy>;  // Overrides the plugins' own policies
+  knowledge: KnowledgeConfig;
+  mcpServers: Record<string, McpServerConfig>;  // By server name
+}
+
+/**
+ * Defaults applied to every agent before its own settings
+ */
+const AGENT_DEFAULTS = {
+  provider: 'ollama' as const,
+  temperature: 0.7,
+  maxTokens: 500,
+};
+
+/**
+ * Agents that may be left out of the config file, and the agent whose
+ * (already overridden) settings they inherit
+ */
+const OPTIONAL_AGENTS: Partial<Record<AgentName, AgentName>> = {
+  summarizer: 'conversation',
+};
+
+const MEMORY_DEFAULTS: MemoryConfig = {
+  summaryMaxTokens: 256,
+};
+
+const KNOWLEDGE_DEFAULTS = {
+  directory: 'knowledge',
+  embeddingModel: 'nomic-embed-text',
+  chunkTokens: 200,
+  chunkOverlapTokens: 40,
+  topK: 3,
+  minScore: 0.3,
+};
+
+const MCP_SERVER_DEFAULTS = {
+  timeoutMs: 30000,
+};
+
+/**
+ * Per-provider base URL defaults and shared environment variables
+ */
+const PROVIDER_DEFAULTS: Record<ProviderName, { baseUrl: string; baseUrlEnv: string; modelEnv: string }> = {
+  ollama: {
+    baseUrl: 'http://localhost:11434',
+    baseUrlEnv: 'OLLAMA_BASE_URL',
+    modelEnv: 'OLLAMA_MODEL',
+  },
+  openai: {
+    baseUrl: 'http://localhost:8080/v1', // llama.cpp server default
+    baseUrlEnv: 'OPENAI_BASE_URL',
+    modelEnv: 'OPENAI_MODEL',
+  },
+};
+
+/**
+ * Environment variables that override the config file
+ * Per-agent variables (e.g. ROUTER_MODEL) win over the provider-wide ones
+ * (e.g. OLLAMA_BASE_URL); the provider-wide model variable only applies to
+ * the conversation agent
+ */
+const ENV_OVERRIDES: Record<AgentName, { provider: string; model: string; baseUrl: string; providerModel: boolean }> = {
+  router: {
+    provider: 'ROUTER_PROVIDER',
+    model: 'ROUTER_MODEL',
+    baseUrl: 'ROUTER_BASE_URL',
+    providerModel: false,
+  },
+  conversation: {
+    provider: 'CONVERSATION_PROVIDER',
+    model: 'CONVERSATION_MODEL',
+    baseUrl: 'CONVERSATION_BASE_URL',
+    providerModel: true,
+  },
+  summarizer: {
+    provider: 'SUMMARIZER_PROVIDER',
+    model: 'SUMMARIZER_MODEL',
+    baseUrl: 'SUMMARIZER_BASE_URL',
+    providerModel: false,
+  },
+};
+
+/**
+ * Return the first environment variable in the list that is set
+ */
+function firstEnv(names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate one agent entry and collect readable error messages
+ */
+function validateAgent(name: string, agent: Record<string, any>, errors: string[]): void {
+  const prefix = `agents.${name}`;
+
+  if (!PROVIDER_NAMES.includes(agent.provider)) {
+    errors.push(`${prefix}.provider must be one of: ${PROVIDER_NAMES.join(', ')} (got ${JSON.stringify(agent.provider)})`);
+  }
+
+  if (typeof agent.model !== 'string' || !agent.model.trim()) {
+    errors.push(`${prefix}.model must be a non-empty string`);
+  }
+
+  if (typeof agent.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(agent.baseUrl)) {
+    errors.push(`${prefix}.baseUrl must be an http(s) URL (got ${JSON.stringify(agent.baseUrl)})`);
+  }
+
+  if (typeof agent.temperature !== 'number' || agent.temperature < 0 || agent.temperature > 2) {
+    errors.push(`${prefix}.temperature must be a number between 0 and 2`);
+  }
+
+  if (!Number.isInteger(agent.maxTokens) || agent.maxTokens < 1) {
+    errors.push(`${prefix}.maxTokens must be a positive integer`);
+  }
+
+  if (agent.numCtx !== undefined && (!Number.isInteger(agent.numCtx) || agent.numCtx < 256)) {
+    errors.push(`${prefix}.numCtx must be an integer of at least 256`);
+  }
+
+  if (agent.keepAlive !== undefined && typeof agent.keepAlive !== 'string' && typeof agent.keepAlive !== 'number') {
+    errors.push(`${prefix}.keepAlive must be a duration string (e.g. "10m") or a number of seconds`);
+  }
+
+  if (agent.stopSequences !== undefined
+    && (!Array.isArray(agent.stopSequences) || agent.stopSequences.some((s: unknown) => typeof s !== 'string'))) {
+    errors.push(`${prefix}.stopSequences must be an array of strings`);
+  }
+}
+
+/**
+ * Validate the memory section and collect readable error messages
+ */
+function validateMemory(memory: Record<string, any>, errors: string[]): void {
+  if (memory.maxHistoryTokens !== undefined && (!Number.isInteger(memory.maxHistoryTokens) || memory.maxHistoryTokens < 128)) {
+    errors.push('memory.maxHistoryTokens must be an integer of at least 128');
+  }
+
+  if (!Number.isInteger(memory.summaryMaxTokens) || memory.summaryMaxTokens < 32) {
+    errors.push('memory.summaryMaxTokens must be an integer of at least 32');
+  }
+}
+
+/**
+ * Validate the knowledge section and collect readable error messages
+ */
+function validateKnowledge(knowledge: Record<string, any>, errors: string[]): void {
+  if (typeof knowledge.directory !== 'string' || !knowledge.directory.trim()) {
+    errors.push('knowledge.directory must be a non-empty path');
+  }
+
+  if (typeof knowledge.embeddingModel !== 'string' || !knowledge.embeddingModel.trim()) {
+    errors.push('knowledge.embeddingModel must be a non-empty string');
+  }
+
+  if (typeof knowledge.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(knowledge.baseUrl)) {
+    errors.push(`knowledge.baseUrl must be an http(s) URL (got ${JSON.stringify(knowledge.baseUrl)})`);
+  }
+
+  if (!Number.isInteger(knowledge.chunkTokens) || knowledge.chunkTokens < 32) {
+    errors.push('knowledge.chunkTokens must be an integer of at least 32');
+  }
+
+  if (!Number.isInteger(knowledge.chunkOverlapTokens) || knowledge.chunkOverlapTokens < 0
+    || knowledge.chunkOverlapTokens >= knowledge.chunkTokens) {
+    errors.push('knowledge.chunkOverlapTokens must be a non-negative integer below chunkTokens');
+  }
+
+  if (!Number.isInteger(knowledge.topK) || knowledge.topK < 1 || knowledge.topK > 20) {
+    errors.push('knowledge.topK must be an integer between 1 and 20');
+  }
+
+  if (typeof knowledge.minScore !== 'number' || knowledge.minScore < -1 || knowledge.minScore > 1) {
+    errors.push('knowledge.minScore must be a number between -1 and 1');
+  }
+}
+
+/**
+ * Build one MCP server entry from the config file, collecting readable
+ * error messages
+ */
+function parseMcpServer(name: string, entry: any, errors: string[]): McpServerConfig {
+  const prefix = `mcpServers.${name}`;
+  if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+    errors.push(`${prefix}: server names may only contain letters, digits, "_" and "-"`);
+  }
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    errors.push(`${prefix} must be an object with a "command" or a "url"`);
+    return { type: 'stdio', ...MCP_SERVER_DEFAULTS };
+  }
+
+  // "streamable-http" and "streamableHttp" are what other clients call it
+  const type = entry.type === undefined
+    ? (entry.url !== undefined ? 'http' : 'stdio')
+    : String(entry.type).toLowerCase().replace(/^streamable-?/, '');
+  const server: McpServerConfig = { ...MCP_SERVER_DEFAULTS, ...entry, type: type as McpTransport };
+
+  if (!MCP_TRANSPORTS.includes(server.type)) {
+    errors.push(`${prefix}.type must be one of: ${MCP_TRANSPORTS.join(', ')} (got ${JSON.stringify(entry.type)})`);
+  }
+
+  if (server.type === 'stdio') {
+    if (typeof server.command !== 'string' || !server.command.trim()) {
+      errors.push(`${prefix}.command must be a non-empty string`);
+    }
+    if (server.args !== undefined && (!Array.isArray(server.args) || server.args.some((arg: unknown) => typeof arg !== 'string'))) {
+      errors.push(`${prefix}.args must be an array of strings`);
+    }
+    if (server.env !== undefined && !isStringMap(server.env)) {
+      errors.push(`${prefix}.env must map variable names to strings`);
+    }
+    if (server.cwd !== undefined && (typeof server.cwd !== 'string' || !server.cwd.trim())) {
+      errors.push(`${prefix}.cwd must be a non-empty path`);
+    }
+  }
+
+  if (server.type === 'http') {
+    if (typeof server.url !== 'string' || !/^https?:\/\/\S+$/.test(server.url)) {
+      errors.push(`${prefix}.url must be an http(s) URL (got ${JSON.stringify(server.url)})`);
+    }
+    if (server.headers !== undefined && !isStringMap(server.headers)) {
+      errors.push(`${prefix}.headers must map header names to strings`);
+    }
+  }
+
+  if (server.toolPrefix !== undefined && (typeof server.toolPrefix !== 'string' || !/^[A-Za-z0-9_-]*$/.test(server.toolPrefix))) {
+    errors.push(`${prefix}.toolPrefix may only contain letters, digits, "_" and "-"`);
+  }
+
+  if (!Number.isInteger(server.timeoutMs) || server.timeoutMs < 1000) {
+    errors.push(`${prefix}.timeoutMs must be an integer of at least 1000`);
+  }
+
+  return server;
+}
+
+/**
+ * Whether a value is an object of string values
+ */
+function isStringMap(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+/**
+ * Load, override and validate the agent topology
+ */
+export function loadAgentConfig(): AgentTopologyConfig {
+  const configPath = path.resolve(
+    process.env.AGENT_CONFIG_PATH || path.join(__dirname, '../../agents.config.json'),
+  );
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read agent config ${configPath}: ${reason}`);
+  }
+
+  const errors: string[] = [];
+  const defaults = raw?.defaults ?? {};
+
+  if (typeof defaults !== 'object' || Array.isArray(defaults)) {
+    errors.push('defaults must be an object');
+  }
+
+  if (!raw?.agents || typeof raw.agents !== 'object') {
+    errors.push('agents must be an object with "router" and "conversation" entries');
+  }
+
+  for (const name of Object.keys(raw?.agents ?? {})) {
+    if (!AGENT_NAMES.includes(name as AgentName)) {
+      errors.push(`agents.${name} is not a known agent (expected one of: ${AGENT_NAMES.join(', ')})`);
+    }
+  }
+
+  const agents = {} as Record<AgentName, AgentModelConfig>;
+
+  for (const name of AGENT_NAMES) {
+    const fallback = OPTIONAL_AGENTS[name];
+    const entry = raw?.agents?.[name] ?? (fallback && agents[fallback] ? { ...agents[fallback] } : undefined);
+    if (!entry || typeof entry !== 'object') {
+      if (!fallback) {
+        errors.push(`agents.${name} is required`);
+      }
+      continue;
+    }
+
+    const agent = { ...AGENT_DEFAULTS, ...defaults, ...entry };
+    const overrides = ENV_OVERRIDES[name];
+
+    // Environment overrides (provider first, since the others depend on it)
+    const provider = firstEnv([overrides.provider]);
+    if (provider) agent.provider = provider;
+
+    const providerDefaults = PROVIDER_DEFAULTS[agent.provider as ProviderName];
+    if (providerDefaults) {
+      // A shared baseUrl in "defaults" only fits agents of the same provider
+      if (!entry.baseUrl && (defaults.provider ?? AGENT_DEFAULTS.provider) !== agent.provider) {
+        agent.baseUrl = providerDefaults.baseUrl;
+      }
+      agent.baseUrl ??= providerDefaults.baseUrl;
+
+      const model = firstEnv([overrides.model, ...(overrides.providerModel ? [providerDefaults.modelEnv] : [])]);
+      const baseUrl = firstEnv([overrides.baseUrl, providerDefaults.baseUrlEnv]);
+      if (model) agent.model = model;
+      if (baseUrl) agent.baseUrl = baseUrl;
+    }
+
+    validateAgent(name, agent, errors);
+    agents[name] = agent;
+  }
+
+  const memoryEntry = raw?.memory ?? {};
+  if (typeof memoryEntry !== 'object' || Array.isArray(memoryEntry)) {
+    errors.push('memory must be an object');
+  }
+
+  const memory: MemoryConfig = { ...MEMORY_DEFAULTS, ...memoryEntry };
+  validateMemory(memory, errors);
+
+  const toolPolicies = raw?.toolPolicies ?? {};
+  if (typeof toolPolicies !== 'object' || Array.isArray(toolPolicies)) {
+    errors.push('toolPolicies must be an object mapping tool names to policies');
+  } else {
+    for (const [tool, policy] of Object.entries(toolPolicies)) {
+      if (!TOOL_POLICIES.includes(policy as ToolPolicy)) {
+        errors.push(`toolPolicies.${tool} must be one of: ${TOOL_POLICIES.join(', ')}`);
+      }
+    }
+  }
+
+  const knowledgeEntry = raw?.knowledge ?? {};
+  if (typeof knowledgeEntry !== 'object' || Array.isArray(knowledgeEntry)) {
+    errors.push('knowledge must be an object');
+  }
+
+  // Embeddings always come from Ollama: the shared "defaults" baseUrl only applies if it is an Ollama one
+  const knowledge = {
+    ...KNOWLEDGE_DEFAULTS,
+    baseUrl: (defaults.provider ?? AGENT_DEFAULTS.provider) === 'ollama' && defaults.baseUrl
+      ? defaults.baseUrl
+      : PROVIDER_DEFAULTS.ollama.baseUrl,
+    ...knowledgeEntry,
+  };
+  const knowledgeDirectory = firstEnv(['KNOWLEDGE_DIR']);
+  const embeddingModel = firstEnv(['EMBEDDING_MODEL']);
+  const embeddingBaseUrl = firstEnv(['EMBEDDING_BASE_URL', PROVIDER_DEFAULTS.ollama.baseUrlEnv]);
+  if (knowledgeDirectory) knowledge.directory = knowledgeDirectory;
+  if (embeddingModel) knowledge.embeddingModel = embeddingModel;
+  if (embeddingBaseUrl) knowledge.baseUrl = embeddingBaseUrl;
+
+  validateKnowledge(knowledge, errors);
+  if (typeof knowledge.directory === 'string') {
+    knowledge.directory = path.resolve(path.dirname(configPath), knowledge.directory);
+  }
+
+  const mcpEntries = raw?.mcpServers ?? {};
+  const mcpServers: Record<string, McpServerConfig> = {};
+  if (typeof mcpEntries !== 'object' || Array.isArray(mcpEntries)) {
+    errors.push('mcpServers must be an object mapping server names to servers');
+  } else {
+    for (const [name, entry] of Object.entries(mcpEntries)) {
+      const server = parseMcpServer(name, entry, errors);
+      // A relative working directory is relative to the config file, like the knowledge directory
+      if (typeof server.cwd === 'string') {
+        server.cwd = path.resolve(path.dirname(configPath), server.cwd);
+      }
+      mcpServers[name] = server;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid agent config (${configPath}):\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    source: configPath,
+    agents,
+    memory,
+    toolPolicies,
+    knowledge,
+    mcpServers,
+  };
+}
+
+export const agentConfig = loadAgentConfig();
+
+console.log('[AGENTS] Configuration loaded from', agentConfig.source);
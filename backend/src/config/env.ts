@@ -15,11 +15,14 @@ dotenv.config({ path: path.join(__dirname, '../../.env') });
 
 export interface EnvConfig {
   port: number;
-  modelProvider: 'ollama' | 'openai';
   ollamaBaseUrl: string;
   ollamaModel: string;
   openaiApiKey?: string;
   openaiModel?: string;
+  sessionIdleTimeoutMs: number;
+  maxToolIterations: number;
+  maxArgumentRepairs: number;
+  dataDir: string;
 }
 
 /**
@@ -27,7 +30,6 @@ export interface EnvConfig {
  */
 function loadEnvConfig(): EnvConfig {
   const port = parseInt(process.env.PORT || '3001', 10);
-  const modelProvider = (process.env.MODEL_PROVIDER || 'ollama') as 'ollama' | 'openai';
 
   // Ollama configuration
   const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
@@ -37,18 +39,39 @@ function loadEnvConfig(): EnvConfig {
   const openaiApiKey = process.env.OPENAI_API_KEY;
   const openaiModel = process.env.OPENAI_MODEL || 'gpt-4';
 
+  // Session configuration
+  const sessionIdleTimeoutMs = parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || '1800000', 10); // 30 minutes
+
+  // Agent configuration
+  const maxToolIterations = parseInt(process.env.MAX_TOOL_ITERATIONS || '3', 10);
+  const maxArgumentRepairs = parseInt(process.env.MAX_ARGUMENT_REPAIRS || '2', 10);
+
+  // Local storage (long-term memory, etc.)
+  const dataDir = path.resolve(process.env.DATA_DIR || path.join(__dirname, '../../data'));
+
   // Validation
-  if (modelProvider === 'openai' && !openaiApiKey) {
-    throw new Error('OPENAI_API_KEY is required when MODEL_PROVIDER=openai');
+  if (!Number.isInteger(sessionIdleTimeoutMs) || sessionIdleTimeoutMs < 1000) {
+    throw new Error('SESSION_IDLE_TIMEOUT_MS must be an integer of at least 1000');
+  }
+
+  if (!Number.isInteger(maxToolIterations) || maxToolIterations < 1) {
+    throw new Error('MAX_TOOL_ITERATIONS must be a positive integer');
+  }
+
+  if (!Number.isInteger(maxArgumentRepairs) || maxArgumentRepairs < 0) {
+    throw new Error('MAX_ARGUMENT_REPAIRS must be a non-negative integer');
   }
 
   return {
     port,
-    modelProvider,
     ollamaBaseUrl,
     ollamaModel,
     openaiApiKey,
     openaiModel,
+    sessionIdleTimeoutMs,
+    maxToolIterations,
+    maxArgumentRepairs,
+    dataDir,
   };
 }
 
@@ -57,9 +80,12 @@ export const envConfig = loadEnvConfig();
 // Log configuration (without sensitive data)
 console.log('[ENV] Configuration loaded:', {
   port: envConfig.port,
-  modelProvider: envConfig.modelProvider,
   ollamaBaseUrl: envConfig.ollamaBaseUrl,
   ollamaModel: envConfig.ollamaModel,
   openaiModel: envConfig.openaiModel,
   openaiConfigured: !!envConfig.openaiApiKey,
+  sessionIdleTimeoutMs: envConfig.sessionIdleTimeoutMs,
+  maxToolIterations: envConfig.maxToolIterations,
+  maxArgumentRepairs: envConfig.maxArgumentRepairs,
+  dataDir: envConfig.dataDir,
 });
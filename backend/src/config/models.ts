@@ -1,9 +1,9 @@
 /**
  * Model Configuration
- * Defines model settings for different providers
+ * Resolves model settings for each agent
  */
 
-import { envConfig } from './env.js';
+import { agentConfig, AGENT_NAMES, type AgentName } from './agents.js';
 
 export interface ModelConfig {
   provider: 'ollama' | 'openai';
@@ -12,29 +12,16 @@ export interface ModelConfig {
   apiKey?: string;
   temperature?: number;
   maxTokens?: number;
+  numCtx?: number;
+  keepAlive?: string | number;
+  stopSequences?: string[];
 }
 
 /**
- * Get model configuration based on environment settings
+ * Get model configuration for an agent from the agent topology config
  */
-export function getModelConfig(): ModelConfig {
-  if (envConfig.modelProvider === 'ollama') {
-    return {
-      provider: 'ollama',
-      baseUrl: envConfig.ollamaBaseUrl,
-      model: envConfig.ollamaModel,
-      temperature: 0.7, // Higher temperature to encourage tool usage
-      maxTokens: 500, // More tokens for complete responses after tool execution
-    };
-  } else {
-    return {
-      provider: 'openai',
-      model: envConfig.openaiModel!,
-      apiKey: envConfig.openaiApiKey,
-      temperature: 0.7,
-      maxTokens: 300, // Shorter responses for voice
-    };
-  }
+export function getModelConfig(agent: AgentName = 'conversation'): ModelConfig {
+  return { ...agentConfig.agents[agent] };
 }
 
 /**
@@ -54,4 +41,6 @@ export const VOICE_SETTINGS = {
   streaming: true,
 };
 
-console.log('[MODELS] Model configuration:', getModelConfig());
+console.log('[MODELS] Model configuration:', Object.fromEntries(
+  AGENT_NAMES.map(name => [name, getModelConfig(name)]),
+));
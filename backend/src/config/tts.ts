@@ -3,7 +3,7 @@
  * Defines TTS settings for different providers
  */
 
-export type TtsProvider = 'browser' | 'system' | 'piper' | 'coqui';
+export type TtsProvider = 'browser' | 'system' | 'piper' | 'coqui' | 'openai';
 
 export interface TtsConfig {
   provider: TtsProvider;
@@ -12,15 +12,33 @@ export interface TtsConfig {
   // Browser TTS (Web Speech API)
   browserVoice?: string;
 
-  // System TTS (say command on macOS, espeak on Linux)
+  // System TTS (espeak-ng, or a command with the same options)
   systemCommand?: string;
+  systemVoice?: string;   // espeak-ng voice, e.g. "en-us" or "en-gb+f3"
 
   // Piper TTS (local neural TTS)
-  piperPath?: string;
-  piperModel?: string;
+  piperPath?: string;     // Piper executable (default: "piper" on the PATH)
+  piperModel?: string;    // Voice model (.onnx, with its .onnx.json next to it)
+  piperSpeaker?: number;  // Speaker id for multi-speaker models
 
-  // Coqui TTS (requires separate Python service)
+  // Coqui TTS server (GET /api/tts)
   coquiUrl?: string;
+  coquiSpeaker?: string;   // speaker_id, for multi-speaker models
+  coquiLanguage?: string;  // language_id, for multilingual models
+
+  // OpenAI-compatible speech server (POST /audio/speech), e.g. Kokoro-FastAPI or openedai-speech
+  openaiTtsUrl?: string;   // Base URL, including /v1
+  openaiTtsModel?: string;
+  openaiTtsVoice?: string;
+  openaiTtsApiKey?: string;
+
+  httpTimeoutMs?: number;  // How long the HTTP servers may take per sentence
+
+  // Disk cache of synthesized audio (server-side providers)
+  cacheEnabled?: boolean;
+  cacheDir?: string;       // Default: <DATA_DIR>/tts-cache
+  cacheMaxMb?: number;     // Least recently used clips are deleted beyond this
+  cachePrewarm?: boolean;  // Synthesize greetings and error messages at startup
 
   // Common settings
   rate?: number;      // Speech rate (0.1 to 10)
@@ -28,6 +46,35 @@ export interface TtsConfig {
   volume?: number;    // Speech volume (0 to 1)
 }
 
+/**
+ * Voice settings that can be overridden per request (e.g. by the active persona)
+ */
+export type TtsVoiceOptions = Pick<TtsConfig, 'browserVoice' | 'rate' | 'pitch' | 'volume'>;
+
+/**
+ * Read a numeric environment variable
+ * A missing value gives the default; one that isn't a number in range is
+ * reported and gives the default too, so a typo can't turn into NaN
+ */
+function readNumber<T extends number | undefined>(
+  name: string,
+  defaultValue: T,
+  { min = -Infinity, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {},
+): number | T {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    const range = `${integer ? 'an integer' : 'a number'} ${max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`}`;
+    console.warn(`[TTS] ${name}=${raw} is not ${range} - using ${defaultValue ?? 'none'}`);
+    return defaultValue;
+  }
+  return value;
+}
+
 /**
  * Get TTS configuration from environment
  */
@@ -43,19 +90,37 @@ export function getTtsConfig(): TtsConfig {
     browserVoice: process.env.TTS_BROWSER_VOICE || 'Google US English',
 
     // System TTS settings
-    systemCommand: process.env.TTS_SYSTEM_COMMAND || 'say', // macOS default
+    systemCommand: process.env.TTS_SYSTEM_COMMAND || 'espeak-ng',
+    systemVoice: process.env.TTS_SYSTEM_VOICE || undefined,
 
     // Piper TTS settings
-    piperPath: process.env.PIPER_PATH,
-    piperModel: process.env.PIPER_MODEL || 'en_US-lessac-medium',
+    piperPath: process.env.PIPER_PATH || 'piper',
+    piperModel: process.env.PIPER_MODEL || 'en_US-lessac-medium.onnx',
+    piperSpeaker: readNumber('PIPER_SPEAKER', undefined, { min: 0, integer: true }),
 
     // Coqui TTS settings
     coquiUrl: process.env.COQUI_TTS_URL || 'http://localhost:5002',
+    coquiSpeaker: process.env.COQUI_SPEAKER_ID || undefined,
+    coquiLanguage: process.env.COQUI_LANGUAGE_ID || undefined,
+
+    // OpenAI-compatible speech settings
+    openaiTtsUrl: process.env.OPENAI_TTS_URL || 'http://localhost:8880/v1', // Kokoro-FastAPI default
+    openaiTtsModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+    openaiTtsVoice: process.env.OPENAI_TTS_VOICE || 'alloy',
+    openaiTtsApiKey: process.env.OPENAI_TTS_API_KEY || undefined,
+
+    httpTimeoutMs: readNumber('TTS_HTTP_TIMEOUT_MS', 15000, { min: 1, integer: true }),
+
+    // Audio cache settings
+    cacheEnabled: process.env.TTS_CACHE_ENABLED !== 'false',
+    cacheDir: process.env.TTS_CACHE_DIR || undefined,
+    cacheMaxMb: readNumber('TTS_CACHE_MAX_MB', 100, { min: 1 }),
+    cachePrewarm: process.env.TTS_CACHE_PREWARM === 'true',
 
     // Common settings
-    rate: parseFloat(process.env.TTS_RATE || '1.0'),
-    pitch: parseFloat(process.env.TTS_PITCH || '1.0'),
-    volume: parseFloat(process.env.TTS_VOLUME || '1.0'),
+    rate: readNumber('TTS_RATE', 1.0, { min: 0.1, max: 10 }),
+    pitch: readNumber('TTS_PITCH', 1.0, { min: 0, max: 2 }),
+    volume: readNumber('TTS_VOLUME', 1.0, { min: 0, max: 1 }),
   };
 }
 
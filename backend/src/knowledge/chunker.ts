@@ -0,0 +1,188 @@
+/**
+ * Document Chunker
+ * Splits markdown and text documents into passages small enough to embed and
+ * to quote in a prompt, keeping the heading each passage sits under
+ */
+
+import path from 'path';
+import { estimateTokens } from '../utils/tokens.js';
+
+/**
+ * A passage of a document
+ */
+export interface DocumentChunk {
+  heading: string;  // Headings the passage sits under, e.g. "Setup > Ollama" (empty at the top)
+  text: string;
+}
+
+export interface ChunkOptions {
+  chunkTokens: number;         // Target size of a chunk
+  chunkOverlapTokens: number;  // Text repeated from the end of the previous chunk
+}
+
+/**
+ * Title of a document: its first "# " heading, or the file name
+ */
+export function getDocumentTitle(content: string, filePath: string): string {
+  const heading = /^#\s+(.+?)\s*#*\s*$/m.exec(content);
+  if (heading) {
+    return heading[1];
+  }
+
+  return path.basename(filePath, path.extname(filePath)).replace(/[-_]+/g, ' ').trim();
+}
+
+/**
+ * Split a document into chunks of about chunkTokens
+ * Markdown headings start a new chunk; within a section, paragraphs are
+ * packed together, and paragraphs that are too long are split by sentence.
+ * Consecutive chunks of a section share up to chunkOverlapTokens of text.
+ */
+export function chunkDocument(content: string, options: ChunkOptions): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of splitSections(content)) {
+    const pieces = splitParagraphs(section.text)
+      .flatMap(paragraph => estimateTokens(paragraph) > options.chunkTokens ? splitSentences(paragraph, options.chunkTokens) : [paragraph]);
+
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (current.length === 0) {
+        return;
+      }
+      chunks.push({ heading: section.heading, text: current.join('\n\n') });
+
+      // Start the next chunk with the tail of this one
+      const overlap: string[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const tokens = estimateTokens(current[i]);
+        if (overlapTokens + tokens > options.chunkOverlapTokens) break;
+        overlap.unshift(current[i]);
+        overlapTokens += tokens;
+      }
+      current = overlap;
+      currentTokens = overlapTokens;
+    };
+
+    for (const piece of pieces) {
+      const tokens = estimateTokens(piece);
+      if (currentTokens + tokens > options.chunkTokens && currentTokens > 0) {
+        flush();
+        // The overlap alone might still not leave room
+        if (currentTokens + tokens > options.chunkTokens) {
+          current = [];
+          currentTokens = 0;
+        }
+      }
+      current.push(piece);
+      currentTokens += tokens;
+    }
+
+    // The last chunk of a section doesn't need an overlap for a next one
+    if (current.length > 0) {
+      chunks.push({ heading: section.heading, text: current.join('\n\n') });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Split markdown into sections at headings, tracking the heading path
+ * Headings inside fenced code blocks are ignored
+ */
+function splitSections(content: string): { heading: string; text: string }[] {
+  const sections: { heading: string; text: string }[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      sections.push({ heading: headings.filter(Boolean).join(' > '), text });
+    }
+    lines = [];
+  };
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+    }
+
+    const heading = !inCode && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2];
+      continue;
+    }
+
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Split text into paragraphs at blank lines, keeping code blocks whole
+ */
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let inCode = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+    }
+
+    if (!inCode && !line.trim()) {
+      if (current.length > 0) {
+        paragraphs.push(current.join('\n').trim());
+        current = [];
+      }
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) {
+    paragraphs.push(current.join('\n').trim());
+  }
+
+  return paragraphs.filter(Boolean);
+}
+
+/**
+ * Split a long paragraph into pieces of at most maxTokens, at sentence ends
+ * where possible (a single huge sentence is cut by length)
+ */
+function splitSentences(paragraph: string, maxTokens: number): string[] {
+  const sentences = paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g) ?? [paragraph];
+  const maxChars = Math.max(1, Math.floor(maxTokens * paragraph.length / Math.max(1, estimateTokens(paragraph))));
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && estimateTokens(current + sentence) > maxTokens) {
+      pieces.push(current.trim());
+      current = '';
+    }
+
+    current += sentence;
+    while (estimateTokens(current) > maxTokens) {
+      pieces.push(current.slice(0, maxChars).trim());
+      current = current.slice(maxChars);
+    }
+  }
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces.filter(Boolean);
+}
@@ -0,0 +1,398 @@
+/**
+ * Knowledge Base
+ * Markdown and text documents from the configured directory, chunked and
+ * embedded through Ollama into a local vector index, searched by the
+ * searchKnowledge tool
+ * The index is a JSON file in the data directory. Re-indexing only embeds
+ * documents that changed since the last run.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { envConfig } from '../config/env.js';
+import { agentConfig, type KnowledgeConfig } from '../config/agents.js';
+import { OllamaProvider } from '../models/ollama-provider.js';
+import { chunkDocument, getDocumentTitle } from './chunker.js';
+
+/**
+ * Embeds texts, one vector per text
+ */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * An indexed chunk of a document
+ */
+interface IndexedChunk {
+  heading: string;
+  text: string;
+  embedding: number[];
+}
+
+/**
+ * An indexed document
+ */
+interface IndexedDocument {
+  title: string;
+  hash: string;       // sha256 of the content, to skip unchanged documents
+  indexedAt: string;  // ISO timestamp
+  chunks: IndexedChunk[];
+}
+
+/**
+ * On-disk format of the index
+ * Vectors are only comparable within one model and chunking, so changing
+ * either re-embeds everything
+ */
+interface KnowledgeIndexFile {
+  version: 1;
+  embeddingModel: string;
+  chunkTokens: number;
+  chunkOverlapTokens: number;
+  indexedAt?: string;
+  documents: Record<string, IndexedDocument>;  // By path relative to the directory
+}
+
+/**
+ * A passage found by a search
+ */
+export interface KnowledgePassage {
+  source: string;  // Document path, relative to the knowledge directory
+  title: string;   // Document title, for naming the source in answers
+  heading: string;
+  text: string;
+  score: number;   // Cosine similarity to the query
+}
+
+/**
+ * Outcome of a re-index
+ */
+export interface ReindexResult {
+  documents: number;
+  chunks: number;
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  failed: { source: string; error: string }[];
+  durationMs: number;
+}
+
+const DOCUMENT_EXTENSIONS = new Set(['.md', '.markdown', '.txt']);
+const MAX_DOCUMENT_BYTES = 1024 * 1024;  // Larger files are skipped
+const EMBED_BATCH_SIZE = 16;
+
+/**
+ * KnowledgeBase class
+ * The index is held in memory and written to disk after each re-index
+ */
+export class KnowledgeBase {
+  private config: KnowledgeConfig;
+  private filePath: string;
+  private index: KnowledgeIndexFile;
+  private embed: Embedder;
+  private reindexing?: Promise<ReindexResult>;
+
+  constructor(
+    config: KnowledgeConfig = agentConfig.knowledge,
+    filePath: string = path.join(envConfig.dataDir, 'knowledge-index.json'),
+    embedder?: Embedder,
+  ) {
+    this.config = config;
+    this.filePath = filePath;
+    this.index = this.load();
+
+    if (embedder) {
+      this.embed = embedder;
+    } else {
+      // Same Ollama client as the chat agents, pointed at the embedding model
+      const provider = new OllamaProvider({ provider: 'ollama', baseUrl: config.baseUrl, model: config.embeddingModel });
+      this.embed = (texts) => provider.embed(texts);
+    }
+
+    console.log('[KNOWLEDGE] Index loaded:', this.filePath, '-', Object.keys(this.index.documents).length, 'document(s)');
+  }
+
+  /**
+   * Whether a re-index is running
+   */
+  isIndexing(): boolean {
+    return !!this.reindexing;
+  }
+
+  /**
+   * Bring the index up to date with the documents directory
+   * Only new and changed documents are embedded. Concurrent calls share
+   * the same run.
+   */
+  reindex(): Promise<ReindexResult> {
+    this.reindexing ??= this.runReindex().finally(() => {
+      this.reindexing = undefined;
+    });
+    return this.reindexing;
+  }
+
+  /**
+   * Find the passages most similar to a query, best first
+   */
+  async search(query: string, topK: number = this.config.topK): Promise<KnowledgePassage[]> {
+    const text = query.trim();
+    if (!text) {
+      return [];
+    }
+
+    const documents = Object.entries(this.index.documents);
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const [queryVector] = await this.embed([text]);
+    const passages: KnowledgePassage[] = [];
+
+    for (const [source, document] of documents) {
+      for (const chunk of document.chunks) {
+        const score = cosineSimilarity(queryVector, chunk.embedding);
+        if (score >= this.config.minScore) {
+          passages.push({ source, title: document.title, heading: chunk.heading, text: chunk.text, score });
+        }
+      }
+    }
+
+    return passages.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Summary of what is indexed
+   */
+  getStats() {
+    const documents = Object.entries(this.index.documents);
+    return {
+      directory: this.config.directory,
+      embeddingModel: this.index.embeddingModel,
+      chunkTokens: this.index.chunkTokens,
+      chunkOverlapTokens: this.index.chunkOverlapTokens,
+      indexedAt: this.index.indexedAt ?? null,
+      indexing: this.isIndexing(),
+      documentCount: documents.length,
+      chunkCount: documents.reduce((total, [, document]) => total + document.chunks.length, 0),
+      documents: documents.map(([source, document]) => ({
+        source,
+        title: document.title,
+        chunks: document.chunks.length,
+        indexedAt: document.indexedAt,
+      })),
+    };
+  }
+
+  /**
+   * The chunks of one indexed document (without their vectors)
+   */
+  getDocument(source: string) {
+    const document = this.index.documents[source];
+    if (!document) {
+      return undefined;
+    }
+
+    return {
+      source,
+      title: document.title,
+      indexedAt: document.indexedAt,
+      chunks: document.chunks.map(chunk => ({ heading: chunk.heading, text: chunk.text, dimensions: chunk.embedding.length })),
+    };
+  }
+
+  /**
+   * Re-index: scan the directory, embed what changed, drop what is gone
+   */
+  private async runReindex(): Promise<ReindexResult> {
+    const startTime = Date.now();
+    const { embeddingModel, chunkTokens, chunkOverlapTokens } = this.config;
+
+    // A different model or chunking makes the stored vectors useless
+    const previous = this.index.embeddingModel === embeddingModel
+      && this.index.chunkTokens === chunkTokens
+      && this.index.chunkOverlapTokens === chunkOverlapTokens
+      ? this.index.documents
+      : {};
+
+    const documents: Record<string, IndexedDocument> = {};
+    const result: ReindexResult = { documents: 0, chunks: 0, added: [], updated: [], removed: [], unchanged: 0, failed: [], durationMs: 0 };
+
+    const files = await listDocuments(this.config.directory);
+    console.log('[KNOWLEDGE] Re-indexing', files.length, 'document(s) from', this.config.directory);
+
+    for (const source of files) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.config.directory, source), 'utf-8');
+        const hash = createHash('sha256').update(content).digest('hex');
+
+        const existing = previous[source];
+        if (existing?.hash === hash) {
+          documents[source] = existing;
+          result.unchanged++;
+          continue;
+        }
+
+        const chunks = chunkDocument(content, { chunkTokens, chunkOverlapTokens });
+        const title = getDocumentTitle(content, source);
+        const embeddings: number[][] = [];
+        for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+          const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+          embeddings.push(...await this.embed(batch.map(chunk => toEmbeddingText(title, chunk.heading, chunk.text))));
+        }
+
+        documents[source] = {
+          title,
+          hash,
+          indexedAt: new Date().toISOString(),
+          chunks: chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+        };
+        (existing ? result.updated : result.added).push(source);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[KNOWLEDGE] Failed to index', source, ':', message);
+        result.failed.push({ source, error: message });
+
+        // Keep the old version rather than losing the document
+        if (previous[source]) {
+          documents[source] = previous[source];
+        }
+      }
+    }
+
+    result.removed = Object.keys(previous).filter(source => !documents[source]);
+
+    this.index = {
+      version: 1,
+      embeddingModel,
+      chunkTokens,
+      chunkOverlapTokens,
+      indexedAt: new Date().toISOString(),
+      documents,
+    };
+    await this.persist();
+
+    result.documents = Object.keys(documents).length;
+    result.chunks = Object.values(documents).reduce((total, document) => total + document.chunks.length, 0);
+    result.durationMs = Date.now() - startTime;
+    console.log('[KNOWLEDGE] Re-index done:', result.documents, 'document(s),', result.chunks, 'chunk(s) -',
+      result.added.length, 'added,', result.updated.length, 'updated,', result.removed.length, 'removed,',
+      result.failed.length, 'failed in', result.durationMs, 'ms');
+    return result;
+  }
+
+  /**
+   * Read the index from disk
+   * A corrupt file is set aside; the next re-index rebuilds it
+   */
+  private load(): KnowledgeIndexFile {
+    const empty: KnowledgeIndexFile = {
+      version: 1,
+      embeddingModel: this.config.embeddingModel,
+      chunkTokens: this.config.chunkTokens,
+      chunkOverlapTokens: this.config.chunkOverlapTokens,
+      documents: {},
+    };
+
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return empty;
+      }
+      throw new Error(`Failed to read knowledge index ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      const data = JSON.parse(raw) as KnowledgeIndexFile;
+      if (!data || typeof data.documents !== 'object' || data.documents === null) {
+        throw new Error('missing "documents" object');
+      }
+      return data;
+    } catch (error) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, backupPath);
+      console.error('[KNOWLEDGE] Knowledge index is corrupt, moved it to', backupPath, '-', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Write the index to disk (atomically)
+   * Re-indexes never overlap, so no write queue is needed
+   */
+  private async persist(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(this.index), 'utf-8');
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Paths (relative to the directory) of the documents to index, sorted
+ * A missing directory has no documents
+ */
+async function listDocuments(directory: string): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(directory, { withFileTypes: true, recursive: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.warn('[KNOWLEDGE] Documents directory not found:', directory);
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || !DOCUMENT_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) || entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const fullPath = path.join(entry.parentPath, entry.name);
+    const { size } = await fs.promises.stat(fullPath);
+    if (size > MAX_DOCUMENT_BYTES) {
+      console.warn('[KNOWLEDGE] Skipping', fullPath, `(larger than ${MAX_DOCUMENT_BYTES / 1024} KB)`);
+      continue;
+    }
+
+    files.push(path.relative(directory, fullPath).split(path.sep).join('/'));
+  }
+
+  return files.sort();
+}
+
+/**
+ * Text embedded for a chunk: the title and heading give it context
+ */
+function toEmbeddingText(title: string, heading: string, text: string): string {
+  return `${[title, heading].filter(Boolean).join(' > ')}\n\n${text}`;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when their sizes differ)
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Export singleton instance
+ */
+export const knowledgeBase = new KnowledgeBase();
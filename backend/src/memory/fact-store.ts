@@ -0,0 +1,245 @@
+/**
+ * Long-Term Memory Store
+ * Facts Pixel remembers about each user, kept across server restarts and
+ * history clears in a JSON file in the data directory
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { envConfig } from '../config/env.js';
+
+/**
+ * A single remembered fact
+ */
+export interface Fact {
+  id: string;
+  content: string;
+  createdAt: string;  // ISO timestamp
+  updatedAt: string;  // ISO timestamp, bumped when the fact is remembered again
+}
+
+/**
+ * On-disk format of the store
+ */
+interface FactStoreFile {
+  version: 1;
+  users: Record<string, Fact[]>;
+}
+
+export const DEFAULT_USER_ID = 'default';
+
+const MAX_FACT_LENGTH = 300;
+const MAX_FACTS_PER_USER = 200;  // Oldest facts are dropped beyond this
+
+/**
+ * Words ignored when matching facts against a query
+ */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'her', 'was', 'one',
+  'our', 'out', 'his', 'has', 'had', 'how', 'its', 'who', 'did', 'get', 'him', 'she', 'they', 'them',
+  'what', 'when', 'where', 'which', 'with', 'that', 'this', 'from', 'have', 'about', 'know', 'like',
+  'remember', 'forget', 'fact', 'facts', 'user', 'does', 'tell', 'there', 'their', 'would', 'should',
+]);
+
+/**
+ * FactStore class
+ * Facts are held in memory and written through to disk on every change
+ */
+export class FactStore {
+  private filePath: string;
+  private users: Record<string, Fact[]>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = path.join(envConfig.dataDir, 'memory.json')) {
+    this.filePath = filePath;
+    this.users = this.load();
+    console.log('[MEMORY] Fact store loaded:', this.filePath, '-', Object.keys(this.users).length, 'user(s)');
+  }
+
+  /**
+   * List all facts stored for a user, oldest first
+   */
+  list(userId: string): Fact[] {
+    return [...(this.users[userId] ?? [])];
+  }
+
+  /**
+   * Store a fact, or refresh it if the same fact is already stored
+   */
+  async remember(userId: string, content: string): Promise<{ fact: Fact; created: boolean }> {
+    const text = content.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      throw new Error('Fact must not be empty');
+    }
+    if (text.length > MAX_FACT_LENGTH) {
+      throw new Error(`Fact is too long (max ${MAX_FACT_LENGTH} characters)`);
+    }
+
+    const facts = this.users[userId] ??= [];
+    const now = new Date().toISOString();
+    const existing = facts.find(fact => fact.content.toLowerCase() === text.toLowerCase());
+
+    if (existing) {
+      existing.updatedAt = now;
+      await this.persist();
+      return { fact: { ...existing }, created: false };
+    }
+
+    const fact: Fact = { id: randomUUID(), content: text, createdAt: now, updatedAt: now };
+    facts.push(fact);
+
+    if (facts.length > MAX_FACTS_PER_USER) {
+      facts.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+      facts.splice(0, facts.length - MAX_FACTS_PER_USER);
+    }
+
+    await this.persist();
+    console.log('[MEMORY] Remembered fact for', userId, ':', text);
+    return { fact: { ...fact }, created: true };
+  }
+
+  /**
+   * Delete a fact by id
+   */
+  async forget(userId: string, factId: string): Promise<Fact | undefined> {
+    const facts = this.users[userId] ?? [];
+    const index = facts.findIndex(fact => fact.id === factId);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const [removed] = facts.splice(index, 1);
+    if (facts.length === 0) {
+      delete this.users[userId];
+    }
+
+    await this.persist();
+    console.log('[MEMORY] Forgot fact for', userId, ':', removed.content);
+    return removed;
+  }
+
+  /**
+   * Delete every fact stored for a user
+   */
+  async clear(userId: string): Promise<number> {
+    const count = this.users[userId]?.length ?? 0;
+    if (count === 0) {
+      return 0;
+    }
+
+    delete this.users[userId];
+    await this.persist();
+    console.log('[MEMORY] Cleared', count, 'fact(s) for', userId);
+    return count;
+  }
+
+  /**
+   * Find the facts matching a query, best match first
+   * A query without keywords matches nothing
+   */
+  search(userId: string, query: string, limit: number = 5): Fact[] {
+    const queryWords = extractKeywords(query);
+    if (queryWords.length === 0) {
+      return [];
+    }
+
+    return (this.users[userId] ?? [])
+      .map(fact => ({ fact, score: scoreFact(fact, queryWords) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || b.fact.updatedAt.localeCompare(a.fact.updatedAt))
+      .slice(0, limit)
+      .map(match => ({ ...match.fact }));
+  }
+
+  /**
+   * Pick facts to put in the conversation prompt: those matching the user's
+   * message first, then the most recently remembered ones
+   */
+  selectForPrompt(userId: string, query: string, limit: number): Fact[] {
+    const selected = this.search(userId, query, limit);
+    const recent = [...(this.users[userId] ?? [])]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    for (const fact of recent) {
+      if (selected.length >= limit) break;
+      if (!selected.some(s => s.id === fact.id)) {
+        selected.push({ ...fact });
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Read the store from disk
+   * A corrupt file is set aside instead of being overwritten
+   */
+  private load(): Record<string, Fact[]> {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Failed to read fact store ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      const data = JSON.parse(raw) as FactStoreFile;
+      if (!data || typeof data.users !== 'object' || data.users === null) {
+        throw new Error('missing "users" object');
+      }
+      return data.users;
+    } catch (error) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, backupPath);
+      console.error('[MEMORY] Fact store is corrupt, moved it to', backupPath, '-', error);
+      return {};
+    }
+  }
+
+  /**
+   * Write the store to disk (atomically, one write at a time)
+   */
+  private persist(): Promise<void> {
+    const data: FactStoreFile = { version: 1, users: this.users };
+    const json = JSON.stringify(data, null, 2);
+
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, json, 'utf-8');
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writeQueue = write.catch(error => console.error('[MEMORY] Failed to write fact store:', error));
+    return write;
+  }
+}
+
+/**
+ * Lowercase keywords of a text, without stop words and plural 's'
+ */
+function extractKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Number of query keywords found in a fact
+ */
+function scoreFact(fact: Fact, queryWords: string[]): number {
+  const factWords = new Set(extractKeywords(fact.content));
+  return queryWords.filter(word => factWords.has(word)).length;
+}
+
+/**
+ * Export singleton instance
+ */
+export const factStore = new FactStore();
@@ -0,0 +1,364 @@
+/**
+ * Reminder Store
+ * Timers and reminders set through the tools, kept across server restarts in
+ * a JSON file in the data directory, with an in-process scheduler that hands
+ * due reminders to the server to push to the user
+ * A reminder that fires while its user has no client connected is kept until
+ * one connects.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { envConfig } from '../config/env.js';
+import { formatDuration, formatDueTime } from '../utils/time-parsing.js';
+
+export type ReminderKind = 'timer' | 'reminder';
+
+/**
+ * A single timer or reminder
+ */
+export interface Reminder {
+  id: string;
+  userId: string;
+  kind: ReminderKind;
+  message: string;    // What to remind about, or the timer's label (may be empty)
+  dueAt: string;      // ISO timestamp
+  createdAt: string;  // ISO timestamp
+  firedAt?: string;   // Set once due; the reminder is kept until it has been delivered
+}
+
+/**
+ * Pushes a due reminder to its user
+ * Resolves false when no client of the user is connected to receive it
+ */
+export type ReminderDelivery = (reminder: Reminder) => Promise<boolean>;
+
+/**
+ * On-disk format of the store
+ */
+interface ReminderStoreFile {
+  version: 1;
+  reminders: Reminder[];
+}
+
+const MAX_MESSAGE_LENGTH = 200;
+const MAX_REMINDERS_PER_USER = 50;          // Pending (not yet fired) reminders
+const MAX_DELAY_MS = 365 * 86400000;        // Furthest ahead a reminder can be set
+const UNDELIVERED_TTL_MS = 7 * 86400000;    // Fired reminders nobody picked up are dropped after this
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;     // setTimeout limit; longer waits re-arm
+const LATE_AFTER_MS = 60000;                // Deliveries later than this mention when it was due
+
+/**
+ * Words ignored when matching reminders against a description
+ */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'my', 'that', 'this', 'about', 'remind', 'reminder', 'reminders', 'timer', 'timers',
+  'one', 'cancel', 'delete', 'remove', 'stop', 'please', 'set', 'me',
+]);
+
+/**
+ * ReminderStore class
+ * Reminders are held in memory and written through to disk on every change;
+ * a single timer is armed for the next one due
+ */
+export class ReminderStore {
+  private filePath: string;
+  private reminders: Reminder[];
+  private writeQueue: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+  private deliver?: ReminderDelivery;
+  private delivering = new Set<string>();  // Reminder ids being pushed right now
+
+  constructor(filePath: string = path.join(envConfig.dataDir, 'reminders.json')) {
+    this.filePath = filePath;
+    this.reminders = this.load();
+    console.log('[REMINDERS] Reminder store loaded:', this.filePath, '-', this.reminders.length, 'reminder(s)');
+  }
+
+  /**
+   * Start the scheduler
+   * Reminders that came due while the server was down fire right away.
+   */
+  start(deliver: ReminderDelivery): void {
+    this.deliver = deliver;
+    void this.fireDue();
+  }
+
+  /**
+   * Stop the scheduler (reminders stay stored)
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.deliver = undefined;
+  }
+
+  /**
+   * List a user's pending timers and reminders, soonest first
+   */
+  list(userId: string): Reminder[] {
+    return this.reminders
+      .filter(reminder => reminder.userId === userId && !reminder.firedAt)
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+      .map(reminder => ({ ...reminder }));
+  }
+
+  /**
+   * Schedule a timer or reminder
+   */
+  async add(userId: string, kind: ReminderKind, message: string, dueAt: Date): Promise<Reminder> {
+    const text = message.replace(/\s+/g, ' ').trim();
+    if (kind === 'reminder' && !text) {
+      throw new Error('Reminder message must not be empty');
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Reminder message is too long (max ${MAX_MESSAGE_LENGTH} characters)`);
+    }
+
+    const delay = dueAt.getTime() - Date.now();
+    if (isNaN(delay) || delay <= 0) {
+      throw new Error('That time has already passed');
+    }
+    if (delay > MAX_DELAY_MS) {
+      throw new Error('Reminders can be set at most a year ahead');
+    }
+    if (this.list(userId).length >= MAX_REMINDERS_PER_USER) {
+      throw new Error(`Too many reminders (max ${MAX_REMINDERS_PER_USER}); cancel some first`);
+    }
+
+    const reminder: Reminder = {
+      id: randomUUID(),
+      userId,
+      kind,
+      message: text,
+      dueAt: dueAt.toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+    this.reminders.push(reminder);
+
+    await this.persist();
+    this.arm();
+    console.log('[REMINDERS] Scheduled', kind, 'for', userId, 'at', reminder.dueAt, text ? `: ${text}` : '');
+    return { ...reminder };
+  }
+
+  /**
+   * Cancel a pending reminder by id
+   */
+  async cancel(userId: string, reminderId: string): Promise<Reminder | undefined> {
+    const index = this.reminders.findIndex(reminder =>
+      reminder.id === reminderId && reminder.userId === userId && !reminder.firedAt
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const [removed] = this.reminders.splice(index, 1);
+    await this.persist();
+    this.arm();
+    console.log('[REMINDERS] Cancelled', removed.kind, 'for', userId, ':', removed.message || removed.dueAt);
+    return removed;
+  }
+
+  /**
+   * Find the pending reminder a description refers to: an id, words of its
+   * message, or just "timer"/"reminder" when the user has only one of those
+   */
+  find(userId: string, description: string): Reminder | undefined {
+    const pending = this.list(userId);
+    const byId = pending.find(reminder => reminder.id === description.trim());
+    if (byId) {
+      return byId;
+    }
+
+    const words = extractKeywords(description);
+    if (words.length > 0) {
+      return pending
+        .map(reminder => ({ reminder, score: words.filter(word => extractKeywords(reminder.message).includes(word)).length }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)[0]?.reminder;
+    }
+
+    const kind: ReminderKind | undefined = /\btimer/i.test(description) ? 'timer'
+      : /\breminder/i.test(description) ? 'reminder'
+        : undefined;
+    const candidates = kind ? pending.filter(reminder => reminder.kind === kind) : pending;
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Push the reminders that fired while the user had no client connected
+   * Called when one of the user's clients connects
+   */
+  async deliverPending(userId: string): Promise<void> {
+    const undelivered = this.reminders.filter(reminder => reminder.userId === userId && reminder.firedAt);
+    for (const reminder of undelivered) {
+      await this.tryDeliver(reminder);
+    }
+  }
+
+  /**
+   * Fire every reminder that is due, then arm the timer for the next one
+   */
+  private async fireDue(): Promise<void> {
+    const now = Date.now();
+    const due = this.reminders.filter(reminder => !reminder.firedAt && Date.parse(reminder.dueAt) <= now);
+
+    // Drop reminders whose user never came back for them
+    const expired = this.reminders.filter(reminder =>
+      reminder.firedAt && now - Date.parse(reminder.firedAt) > UNDELIVERED_TTL_MS
+    );
+    for (const reminder of expired) {
+      console.log('[REMINDERS] Dropping undelivered', reminder.kind, 'for', reminder.userId, ':', reminder.message || reminder.dueAt);
+    }
+    this.reminders = this.reminders.filter(reminder => !expired.includes(reminder));
+
+    for (const reminder of due) {
+      reminder.firedAt = new Date(now).toISOString();
+      console.log('[REMINDERS] Fired', reminder.kind, 'for', reminder.userId, ':', reminder.message || reminder.dueAt);
+    }
+
+    if (due.length > 0 || expired.length > 0) {
+      await this.persist().catch(() => {});
+    }
+    this.arm();
+
+    for (const reminder of due) {
+      await this.tryDeliver(reminder);
+    }
+  }
+
+  /**
+   * Hand a fired reminder to the server, and forget it once delivered
+   */
+  private async tryDeliver(reminder: Reminder): Promise<void> {
+    if (!this.deliver || this.delivering.has(reminder.id)) {
+      return;
+    }
+
+    this.delivering.add(reminder.id);
+    try {
+      const delivered = await this.deliver({ ...reminder });
+      if (delivered) {
+        this.reminders = this.reminders.filter(r => r.id !== reminder.id);
+        await this.persist();
+      } else {
+        console.log('[REMINDERS] No client connected for', reminder.userId, '- delivering', reminder.kind, 'on reconnect');
+      }
+    } catch (error) {
+      console.error('[REMINDERS] Failed to deliver', reminder.kind, reminder.id, ':', error);
+    } finally {
+      this.delivering.delete(reminder.id);
+    }
+  }
+
+  /**
+   * Arm the timer for the next pending reminder
+   */
+  private arm(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.deliver) {
+      return;
+    }
+
+    const next = Math.min(...this.reminders
+      .filter(reminder => !reminder.firedAt)
+      .map(reminder => Date.parse(reminder.dueAt)));
+    if (!isFinite(next)) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => void this.fireDue(), delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Read the store from disk
+   * A corrupt file is set aside instead of being overwritten
+   */
+  private load(): Reminder[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read reminder store ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      const data = JSON.parse(raw) as ReminderStoreFile;
+      if (!data || !Array.isArray(data.reminders)) {
+        throw new Error('missing "reminders" array');
+      }
+      return data.reminders;
+    } catch (error) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, backupPath);
+      console.error('[REMINDERS] Reminder store is corrupt, moved it to', backupPath, '-', error);
+      return [];
+    }
+  }
+
+  /**
+   * Write the store to disk (atomically, one write at a time)
+   */
+  private persist(): Promise<void> {
+    const data: ReminderStoreFile = { version: 1, reminders: this.reminders };
+    const json = JSON.stringify(data, null, 2);
+
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, json, 'utf-8');
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writeQueue = write.catch(error => console.error('[REMINDERS] Failed to write reminder store:', error));
+    return write;
+  }
+}
+
+/**
+ * What Pixel says when a reminder fires
+ * A reminder delivered late (the user was away) says when it was due
+ */
+export function toAnnouncement(reminder: Reminder, now: Date = new Date()): string {
+  const dueAt = new Date(reminder.dueAt);
+
+  let text: string;
+  if (reminder.kind === 'timer') {
+    const length = formatDuration(dueAt.getTime() - Date.parse(reminder.createdAt));
+    text = reminder.message
+      ? `⏰ Time's up! Your ${reminder.message} timer is done.`
+      : `⏰ Time's up! Your ${length} timer is done.`;
+  } else {
+    text = `⏰ Reminder: ${reminder.message}`;
+  }
+
+  if (now.getTime() - dueAt.getTime() > LATE_AFTER_MS) {
+    text += ` (This was due ${formatDueTime(dueAt, now)}.)`;
+  }
+
+  return text;
+}
+
+/**
+ * Lowercase keywords of a text, without stop words
+ */
+function extractKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Export singleton instance
+ */
+export const reminderStore = new ReminderStore();
@@ -0,0 +1,212 @@
+/**
+ * Transcript Store
+ * Persists each session's conversation (timestamps, tool calls, processing
+ * times and the running summary) as a JSON file, so sessions survive server
+ * restarts and can be resumed by id
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { envConfig } from '../config/env.js';
+import type { AgentState, ConversationEntry, PendingToolCall } from '../agent/voice-agent.js';
+
+/**
+ * Transcript entry as stored on disk
+ */
+export type StoredEntry = Omit<ConversationEntry, 'timestamp'> & { timestamp: string };
+
+/**
+ * A persisted session
+ */
+export interface StoredSession {
+  id: string;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+  summary: string;
+  contextLength: number;  // Trailing entries still in the model context
+  personaId?: string;
+  pendingToolCall?: PendingToolCall;  // Tool call waiting for the user's answer to a follow-up question
+  entries: StoredEntry[];
+}
+
+/**
+ * Session listing without the entries
+ */
+export interface StoredSessionInfo {
+  id: string;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  preview: string;  // First user message
+}
+
+/**
+ * Session ids become file names, so only allow a safe character set
+ */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * TranscriptStore class
+ * One file per session in <dataDir>/sessions
+ */
+export class TranscriptStore {
+  private directory: string;
+  private writeQueues = new Map<string, Promise<void>>();
+
+  constructor(directory: string = path.join(envConfig.dataDir, 'sessions')) {
+    this.directory = directory;
+  }
+
+  /**
+   * List stored sessions, most recently updated first
+   */
+  async list(userId?: string): Promise<StoredSessionInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions: StoredSessionInfo[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const session = await this.load(file.slice(0, -'.json'.length));
+      if (!session || (userId && session.userId !== userId)) {
+        continue;
+      }
+
+      sessions.push({
+        id: session.id,
+        userId: session.userId,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.entries.length,
+        preview: session.entries.find(entry => entry.role === 'user')?.content.slice(0, 80) ?? '',
+      });
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Load a stored session, or undefined if there is none
+   */
+  async load(sessionId: string): Promise<StoredSession | undefined> {
+    if (!isValidSessionId(sessionId)) {
+      return undefined;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath(sessionId), 'utf-8');
+      return JSON.parse(raw) as StoredSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[TRANSCRIPTS] Failed to read session', sessionId, ':', error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a session (atomically; writes to the same session are serialized)
+   */
+  save(session: StoredSession): Promise<void> {
+    if (!isValidSessionId(session.id)) {
+      return Promise.reject(new Error(`Invalid session id: ${session.id}`));
+    }
+
+    const filePath = this.filePath(session.id);
+    const json = JSON.stringify(session, null, 2);
+    const previous = this.writeQueues.get(session.id) ?? Promise.resolve();
+
+    const write = previous.then(async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, json, 'utf-8');
+      await fs.promises.rename(tmpPath, filePath);
+    });
+
+    const queued = write.catch(() => {});
+    this.writeQueues.set(session.id, queued);
+    queued.then(() => {
+      if (this.writeQueues.get(session.id) === queued) {
+        this.writeQueues.delete(session.id);
+      }
+    });
+
+    return write;
+  }
+
+  /**
+   * Delete a stored session
+   */
+  async delete(sessionId: string): Promise<boolean> {
+    if (!isValidSessionId(sessionId)) {
+      return false;
+    }
+
+    await this.writeQueues.get(sessionId);
+
+    try {
+      await fs.promises.unlink(this.filePath(sessionId));
+      console.log('[TRANSCRIPTS] Deleted session:', sessionId);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
+
+/**
+ * Convert an agent snapshot to its stored form
+ */
+export function toStoredSession(
+  state: AgentState,
+  info: { id: string; userId: string; createdAt: Date },
+): StoredSession {
+  return {
+    id: info.id,
+    userId: info.userId,
+    createdAt: info.createdAt.toISOString(),
+    updatedAt: new Date().toISOString(),
+    summary: state.summary,
+    contextLength: state.contextLength,
+    personaId: state.personaId,
+    pendingToolCall: state.pendingToolCall,
+    entries: state.transcript.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+  };
+}
+
+/**
+ * Convert a stored session back to an agent snapshot
+ */
+export function toAgentState(session: StoredSession): AgentState {
+  return {
+    transcript: session.entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+    summary: session.summary ?? '',
+    contextLength: session.contextLength ?? session.entries.length,
+    personaId: session.personaId,
+    pendingToolCall: session.pendingToolCall,
+  };
+}
+
+/**
+ * Export singleton instance
+ */
+export const transcriptStore = new TranscriptStore();
@@ -0,0 +1,64 @@
+/**
+ * LLM Provider Interface
+ * Common contract for model backends (Ollama, OpenAI-compatible servers)
+ * so each agent can run on a different provider
+ */
+
+import type { Tool } from '../tools/definitions.js';
+
+export interface Message {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: ToolCall[];
+  tool_name?: string;     // Name of the tool whose result a 'tool' message carries
+  tool_call_id?: string;  // Id of the call a 'tool' message answers (required by OpenAI-style APIs)
+}
+
+export interface ToolCall {
+  id?: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string | Record<string, any>;  // Ollama returns an object, OpenAI-style APIs a JSON string
+  };
+}
+
+export interface ChatCompletionResponse {
+  message: {
+    role: string;
+    content: string;
+    tool_calls?: ToolCall[];
+  };
+  done: boolean;
+}
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;  // Aborts the underlying HTTP request (barge-in)
+}
+
+/**
+ * Model information reported by a provider
+ */
+export interface ModelInfo {
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  [key: string]: any;
+}
+
+/**
+ * LLMProvider interface
+ * chat: single completion, optionally with tools
+ * chatStream: content deltas as they arrive
+ * testConnection: health check
+ */
+export interface LLMProvider {
+  chat(messages: Message[], tools?: Tool[], options?: RequestOptions): Promise<ChatCompletionResponse>;
+  chatStream(messages: Message[], options?: RequestOptions): AsyncGenerator<string>;
+  testConnection(): Promise<boolean>;
+  getModelInfo(): ModelInfo;
+}
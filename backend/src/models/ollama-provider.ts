@@ -4,69 +4,87 @@
  * Supports function calling with FunctionGemma
  */
 
-import { Ollama } from 'ollama';
+import { Ollama, type ChatRequest } from 'ollama';
 import type { ModelConfig } from '../config/models.js';
 import type { Tool } from '../tools/definitions.js';
-
-export interface Message {
-  role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
-  tool_calls?: ToolCall[];
-}
-
-export interface ToolCall {
-  id?: string;
-  type: 'function';
-  function: {
-    name: string;
-    arguments: string;
-  };
-}
-
-export interface ChatCompletionResponse {
-  message: {
-    role: string;
-    content: string;
-    tool_calls?: ToolCall[];
-  };
-  done: boolean;
-}
+import type { LLMProvider, Message, ToolCall, ChatCompletionResponse, ModelInfo, RequestOptions } from './llm-provider.js';
 
 /**
  * OllamaProvider class
- * Provides a consistent interface for Ollama model interactions
+ * LLMProvider implementation for Ollama model interactions
  */
-export class OllamaProvider {
+export class OllamaProvider implements LLMProvider {
   private client: Ollama;
+  private baseUrl?: string;
   private model: string;
   private temperature: number;
   private maxTokens: number;
+  private numCtx?: number;
+  private keepAlive?: string | number;
+  private stopSequences?: string[];
 
   constructor(config: ModelConfig) {
     if (config.provider !== 'ollama') {
       throw new Error('OllamaProvider requires provider to be "ollama"');
     }
 
+    this.baseUrl = config.baseUrl;
     this.client = new Ollama({
       host: config.baseUrl,
     });
 
     this.model = config.model;
-    this.temperature = config.temperature || 0.3; // Lower temperature for more focused tool calling
+    this.temperature = config.temperature ?? 0.3; // Lower temperature for more focused tool calling
     this.maxTokens = config.maxTokens || 500; // More tokens for complete responses after tool execution
+    this.numCtx = config.numCtx;
+    this.keepAlive = config.keepAlive;
+    this.stopSequences = config.stopSequences;
 
     console.log('[OLLAMA] Provider initialized:', {
       baseUrl: config.baseUrl,
       model: this.model,
       temperature: this.temperature,
       maxTokens: this.maxTokens,
+      numCtx: this.numCtx,
+      keepAlive: this.keepAlive,
     });
   }
 
+  /**
+   * Get a client whose requests honor the abort signal
+   * The shared client's abort() would cancel every session's streams,
+   * so cancellable requests get their own lightweight client
+   */
+  private clientFor(signal?: AbortSignal): Ollama {
+    if (!signal) {
+      return this.client;
+    }
+
+    return new Ollama({
+      host: this.baseUrl,
+      fetch: (input, init) => fetch(input, {
+        ...init,
+        signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+      }),
+    });
+  }
+
+  /**
+   * Build the Ollama options shared by every request
+   */
+  private buildOptions() {
+    return {
+      temperature: this.temperature,
+      num_predict: this.maxTokens,
+      ...(this.numCtx && { num_ctx: this.numCtx }),
+      ...(this.stopSequences?.length && { stop: this.stopSequences }),
+    };
+  }
+
   /**
    * Generate a chat completion using Ollama
    */
-  async chat(messages: Message[], tools?: Tool[]): Promise<ChatCompletionResponse> {
+  async chat(messages: Message[], tools?: Tool[], options: RequestOptions = {}): Promise<ChatCompletionResponse> {
     try {
       console.log('[OLLAMA] Generating response for', messages.length, 'messages');
       if (tools) {
@@ -79,12 +97,11 @@ export class OllamaProvider {
           role: msg.role,
           content: msg.content,
           ...(msg.tool_calls && { tool_calls: msg.tool_calls }),
+          ...(msg.tool_name && { tool_name: msg.tool_name }),
         })),
         stream: false,
-        options: {
-          temperature: this.temperature,
-          num_predict: this.maxTokens,
-        },
+        options: this.buildOptions(),
+        ...(this.keepAlive !== undefined && { keep_alive: this.keepAlive }),
       };
 
       // Add tools if provided
@@ -92,7 +109,7 @@ export class OllamaProvider {
         requestBody.tools = tools;
       }
 
-      const response = await this.client.chat(requestBody);
+      const response = await this.clientFor(options.signal).chat(requestBody as ChatRequest & { stream: false });
 
       const content = response.message.content || '';
       const tool_calls = response.message.tool_calls;
@@ -118,23 +135,22 @@ export class OllamaProvider {
   }
 
   /**
-   * Stream chat completion (for future use)
+   * Stream chat completion
+   * Yields content deltas as they arrive from Ollama
    */
-  async *chatStream(messages: Message[]): AsyncGenerator<string> {
+  async *chatStream(messages: Message[], options: RequestOptions = {}): AsyncGenerator<string> {
     try {
       console.log('[OLLAMA] Starting stream for', messages.length, 'messages');
 
-      const stream = await this.client.chat({
+      const stream = await this.clientFor(options.signal).chat({
         model: this.model,
         messages: messages.map(msg => ({
           role: msg.role,
           content: msg.content,
         })),
         stream: true,
-        options: {
-          temperature: this.temperature,
-          num_predict: this.maxTokens,
-        },
+        options: this.buildOptions(),
+        ...(this.keepAlive !== undefined && { keep_alive: this.keepAlive }),
       });
 
       for await (const chunk of stream) {
@@ -150,6 +166,29 @@ export class OllamaProvider {
     }
   }
 
+  /**
+   * Embed texts with the model (an embedding model such as nomic-embed-text)
+   * Returns one vector per input text, in order
+   */
+  async embed(input: string[], options: RequestOptions = {}): Promise<number[][]> {
+    try {
+      const response = await this.clientFor(options.signal).embed({
+        model: this.model,
+        input,
+        ...(this.keepAlive !== undefined && { keep_alive: this.keepAlive }),
+      });
+
+      if (response.embeddings.length !== input.length) {
+        throw new Error(`expected ${input.length} embeddings, got ${response.embeddings.length}`);
+      }
+
+      return response.embeddings;
+    } catch (error) {
+      console.error('[OLLAMA] Error embedding', input.length, 'text(s):', error);
+      throw new Error(`Ollama embed failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Test the connection to Ollama
    */
@@ -161,6 +200,7 @@ export class OllamaProvider {
         model: this.model,
         messages: [{ role: 'user', content: 'Hello' }],
         stream: false,
+        ...(this.keepAlive !== undefined && { keep_alive: this.keepAlive }),
       });
 
       const success = !!response.message.content;
@@ -176,12 +216,15 @@ export class OllamaProvider {
   /**
    * Get model information
    */
-  getModelInfo() {
+  getModelInfo(): ModelInfo {
     return {
       provider: 'ollama',
       model: this.model,
       temperature: this.temperature,
       maxTokens: this.maxTokens,
+      numCtx: this.numCtx,
+      keepAlive: this.keepAlive,
+      stopSequences: this.stopSequences,
     };
   }
 }
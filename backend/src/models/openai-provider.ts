@@ -0,0 +1,275 @@
+/**
+ * OpenAI-Compatible Provider
+ * Talks to any server exposing /v1/chat/completions
+ * (llama.cpp server, vLLM, LM Studio, OpenAI itself)
+ */
+
+import type { ModelConfig } from '../config/models.js';
+import type { Tool } from '../tools/definitions.js';
+import type { LLMProvider, Message, ToolCall, ChatCompletionResponse, ModelInfo, RequestOptions } from './llm-provider.js';
+
+/**
+ * OpenAICompatibleProvider class
+ * LLMProvider implementation using plain fetch, no SDK required
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private temperature: number;
+  private maxTokens: number;
+  private stopSequences?: string[];
+
+  constructor(config: ModelConfig) {
+    if (config.provider !== 'openai') {
+      throw new Error('OpenAICompatibleProvider requires provider to be "openai"');
+    }
+
+    if (!config.baseUrl) {
+      throw new Error('OpenAICompatibleProvider requires a baseUrl (e.g. http://localhost:8080/v1)');
+    }
+
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.temperature = config.temperature ?? 0.7;
+    this.maxTokens = config.maxTokens || 500;
+    this.stopSequences = config.stopSequences;
+
+    console.log('[OPENAI] Provider initialized:', {
+      baseUrl: this.baseUrl,
+      model: this.model,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      apiKeyConfigured: !!this.apiKey,
+    });
+  }
+
+  /**
+   * Generate a chat completion
+   */
+  async chat(messages: Message[], tools?: Tool[], options: RequestOptions = {}): Promise<ChatCompletionResponse> {
+    try {
+      console.log('[OPENAI] Generating response for', messages.length, 'messages');
+      if (tools) {
+        console.log('[OPENAI] Using tools:', tools.map(t => t.function.name).join(', '));
+      }
+
+      const response = await this.post({
+        ...this.buildRequest(messages),
+        ...(tools && tools.length > 0 && { tools }),
+        stream: false,
+      }, options.signal);
+
+      const data = await response.json() as any;
+      const choice = data.choices?.[0];
+      if (!choice) {
+        throw new Error('Response contained no choices');
+      }
+
+      const content: string = choice.message?.content || '';
+      const tool_calls: ToolCall[] | undefined = choice.message?.tool_calls?.length
+        ? choice.message.tool_calls
+        : undefined;
+
+      if (tool_calls) {
+        console.log('[OPENAI] Tool calls detected:', tool_calls.map(tc => tc.function.name).join(', '));
+      } else {
+        console.log('[OPENAI] Response generated:', content.slice(0, 100) + (content.length > 100 ? '...' : ''));
+      }
+
+      return {
+        message: {
+          role: choice.message?.role || 'assistant',
+          content,
+          tool_calls,
+        },
+        done: true,
+      };
+    } catch (error) {
+      console.error('[OPENAI] Error generating response:', error);
+      throw new Error(`OpenAI-compatible chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Stream chat completion
+   * Parses the server-sent events and yields content deltas
+   */
+  async *chatStream(messages: Message[], options: RequestOptions = {}): AsyncGenerator<string> {
+    try {
+      console.log('[OPENAI] Starting stream for', messages.length, 'messages');
+
+      const response = await this.post({
+        ...this.buildRequest(messages),
+        stream: true,
+      }, options.signal);
+
+      if (!response.body) {
+        throw new Error('Response has no body to stream');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const delta = this.parseStreamLine(line);
+          if (delta === null) {
+            console.log('[OPENAI] Stream completed');
+            return;
+          }
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+
+      const delta = this.parseStreamLine(buffer);
+      if (delta) {
+        yield delta;
+      }
+
+      console.log('[OPENAI] Stream completed');
+    } catch (error) {
+      console.error('[OPENAI] Error in stream:', error);
+      throw new Error(`OpenAI-compatible stream failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Test the connection by listing the server's models
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('[OPENAI] Testing connection...');
+
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+      });
+
+      const success = response.ok;
+      console.log('[OPENAI] Connection test:', success ? 'SUCCESS' : `FAILED (HTTP ${response.status})`);
+
+      return success;
+    } catch (error) {
+      console.error('[OPENAI] Connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get model information
+   */
+  getModelInfo(): ModelInfo {
+    return {
+      provider: 'openai',
+      baseUrl: this.baseUrl,
+      model: this.model,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      stopSequences: this.stopSequences,
+    };
+  }
+
+  /**
+   * Build the request body shared by chat and chatStream
+   */
+  private buildRequest(messages: Message[]) {
+    return {
+      model: this.model,
+      messages: messages.map(msg => this.toOpenAIMessage(msg)),
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      ...(this.stopSequences?.length && { stop: this.stopSequences }),
+    };
+  }
+
+  /**
+   * Convert a message to the OpenAI wire format
+   * Tool call arguments must be JSON strings and every call needs an id
+   */
+  private toOpenAIMessage(msg: Message) {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.tool_call_id || msg.tool_name || 'tool_call',
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: msg.content,
+      ...(msg.tool_calls && {
+        tool_calls: msg.tool_calls.map((tc, index) => ({
+          id: tc.id || `${tc.function.name}_${index}`,
+          type: 'function',
+          function: {
+            name: tc.function.name,
+            arguments: typeof tc.function.arguments === 'string'
+              ? tc.function.arguments
+              : JSON.stringify(tc.function.arguments),
+          },
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Parse one server-sent event line
+   * Returns the content delta, '' for lines without content, or null at [DONE]
+   */
+  private parseStreamLine(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return '';
+    }
+
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload === '[DONE]') {
+      return null;
+    }
+
+    try {
+      const chunk = JSON.parse(payload);
+      return chunk.choices?.[0]?.delta?.content || '';
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Build request headers
+   */
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  /**
+   * POST to the chat completions endpoint and fail on HTTP errors
+   */
+  private async post(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    return response;
+  }
+}
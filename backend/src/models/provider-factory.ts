@@ -0,0 +1,30 @@
+/**
+ * Provider Factory
+ * Creates the LLMProvider implementation named by a model config
+ */
+
+import type { ModelConfig } from '../config/models.js';
+import { envConfig } from '../config/env.js';
+import type { LLMProvider } from './llm-provider.js';
+import { OllamaProvider } from './ollama-provider.js';
+import { OpenAICompatibleProvider } from './openai-provider.js';
+
+/**
+ * Create a provider for the given model config
+ */
+export function createLLMProvider(config: ModelConfig): LLMProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaProvider(config);
+
+    case 'openai':
+      // API key comes from the environment so it never lives in the config file
+      return new OpenAICompatibleProvider({
+        ...config,
+        apiKey: config.apiKey ?? envConfig.openaiApiKey,
+      });
+
+    default:
+      throw new Error(`Unknown model provider: ${(config as ModelConfig).provider}`);
+  }
+}
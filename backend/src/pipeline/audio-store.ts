@@ -0,0 +1,99 @@
+/**
+ * Audio Store
+ * Keeps synthesized speech in memory for a few minutes so the browser can
+ * fetch it from /api/tts/audio/:id, instead of pushing audio through the
+ * socket with every response
+ */
+
+import { randomUUID } from 'crypto';
+
+/**
+ * A clip waiting to be fetched
+ */
+export interface StoredAudio {
+  data: Buffer;
+  contentType: string;
+  createdAt: number;
+}
+
+const AUDIO_TTL_MS = 10 * 60 * 1000;
+const MAX_TOTAL_BYTES = 64 * 1024 * 1024;  // Oldest clips are dropped beyond this
+const AUDIO_URL_PREFIX = '/api/tts/audio/';
+
+/**
+ * AudioStore class
+ * Clips expire after AUDIO_TTL_MS; the oldest go first when memory is tight
+ */
+export class AudioStore {
+  private clips = new Map<string, StoredAudio>();  // Insertion order = age
+  private totalBytes = 0;
+
+  /**
+   * Store a clip and return its id
+   */
+  put(data: Buffer, contentType: string = 'audio/wav'): string {
+    this.prune();
+
+    const id = randomUUID();
+    this.clips.set(id, { data, contentType, createdAt: Date.now() });
+    this.totalBytes += data.length;
+
+    // Make room, but always keep the clip just added
+    for (const [oldId, clip] of this.clips) {
+      if (this.totalBytes <= MAX_TOTAL_BYTES || oldId === id) {
+        break;
+      }
+      this.delete(oldId, clip);
+    }
+
+    return id;
+  }
+
+  /**
+   * Get a clip that hasn't expired
+   */
+  get(id: string): StoredAudio | undefined {
+    const clip = this.clips.get(id);
+    if (!clip || Date.now() - clip.createdAt > AUDIO_TTL_MS) {
+      return undefined;
+    }
+    return clip;
+  }
+
+  /**
+   * URL path the browser fetches a clip from
+   */
+  getUrl(id: string): string {
+    return `${AUDIO_URL_PREFIX}${id}`;
+  }
+
+  /**
+   * Get a clip by the URL getUrl returned
+   */
+  getByUrl(url: string): StoredAudio | undefined {
+    return url.startsWith(AUDIO_URL_PREFIX) ? this.get(url.slice(AUDIO_URL_PREFIX.length)) : undefined;
+  }
+
+  /**
+   * Drop expired clips
+   */
+  private prune(): void {
+    const cutoff = Date.now() - AUDIO_TTL_MS;
+    for (const [id, clip] of this.clips) {
+      if (clip.createdAt > cutoff) {
+        break;
+      }
+      this.delete(id, clip);
+    }
+  }
+
+  private delete(id: string, clip: StoredAudio): void {
+    this.clips.delete(id);
+    this.totalBytes -= clip.data.length;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const audioStore = new AudioStore();
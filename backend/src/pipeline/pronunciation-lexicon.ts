@@ -0,0 +1,174 @@
+/**
+ * Pronunciation Lexicon
+ * Words the TTS voices get wrong and what to say instead, kept in
+ * pronunciations.json so they can be edited without touching code
+ * Edits to the file apply from the next sentence on, without a restart
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Pronunciations } from '../utils/text-processing.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RELOAD_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * PronunciationLexicon class
+ * The file is a JSON object of word → spoken form, e.g. { "nginx": "engine x" }
+ * A missing file is an empty lexicon; an invalid one stops the server at
+ * startup, and is ignored (keeping the previous entries) when edited later
+ */
+export class PronunciationLexicon {
+  private filePath: string;
+  private entries: Pronunciations = {};
+  private mtimeMs = 0;
+  private checkedAt = 0;
+
+  constructor(filePath: string = process.env.PRONUNCIATIONS_PATH || path.join(__dirname, '../../pronunciations.json')) {
+    this.filePath = path.resolve(filePath);
+
+    const entries = this.readFile();
+    if (entries instanceof Error) {
+      throw entries;
+    }
+    this.entries = entries;
+
+    if (Object.keys(entries).length > 0) {
+      console.log('[PRONUNCIATIONS] Loaded', Object.keys(entries).length, 'entries from', this.filePath);
+    }
+  }
+
+  /**
+   * Current entries, re-read if the file changed
+   */
+  getEntries(): Pronunciations {
+    const now = Date.now();
+    if (now - this.checkedAt >= RELOAD_CHECK_INTERVAL_MS) {
+      this.checkedAt = now;
+      this.reloadIfChanged();
+    }
+    return this.entries;
+  }
+
+  /**
+   * Where the lexicon is stored
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Add or change an entry
+   */
+  async set(word: string, say: string): Promise<void> {
+    const errors = validatePronunciation(word.trim(), say);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    await this.write({ ...this.getEntries(), [word.trim()]: say.trim() });
+  }
+
+  /**
+   * Remove an entry
+   * Returns false if there was none
+   */
+  async remove(word: string): Promise<boolean> {
+    const entries = { ...this.getEntries() };
+    if (!Object.hasOwn(entries, word)) {
+      return false;
+    }
+
+    delete entries[word];
+    await this.write(entries);
+    return true;
+  }
+
+  private reloadIfChanged(): void {
+    let mtimeMs = 0;
+    try {
+      mtimeMs = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      // Deleted: back to an empty lexicon
+    }
+    if (mtimeMs === this.mtimeMs) {
+      return;
+    }
+
+    const entries = this.readFile();
+    if (entries instanceof Error) {
+      console.error('[PRONUNCIATIONS]', entries.message, '- keeping the previous entries');
+      this.mtimeMs = mtimeMs;
+      return;
+    }
+
+    this.entries = entries;
+    console.log('[PRONUNCIATIONS] Reloaded', Object.keys(entries).length, 'entries');
+  }
+
+  /**
+   * Read and validate the file (an Error is returned rather than thrown)
+   */
+  private readFile(): Pronunciations | Error {
+    let raw: any;
+    try {
+      this.mtimeMs = fs.statSync(this.filePath).mtimeMs;
+      raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.mtimeMs = 0;
+        return {};
+      }
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      return new Error(`Failed to read pronunciations file ${this.filePath}: ${reason}`);
+    }
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return new Error(`Invalid pronunciations file (${this.filePath}): expected an object of word → pronunciation`);
+    }
+
+    const errors = Object.entries(raw).flatMap(([word, say]) => validatePronunciation(word, say));
+    if (errors.length > 0) {
+      return new Error(`Invalid pronunciations file (${this.filePath}):\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return raw as Pronunciations;
+  }
+
+  /**
+   * Write the file atomically and use the new entries right away
+   */
+  private async write(entries: Pronunciations): Promise<void> {
+    const sorted = Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(sorted, null, 2) + '\n', 'utf-8');
+    await fs.promises.rename(tmpPath, this.filePath);
+
+    this.entries = sorted;
+    this.mtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+/**
+ * Check one word → pronunciation entry
+ */
+export function validatePronunciation(word: string, say: unknown): string[] {
+  const errors: string[] = [];
+  if (!word.trim() || word.length > 100) {
+    errors.push(`"${word}": the word must be 1-100 characters`);
+  }
+  if (typeof say !== 'string' || !say.trim() || say.length > 200) {
+    errors.push(`"${word}": the pronunciation must be a string of 1-200 characters`);
+  }
+  return errors;
+}
+
+/**
+ * Export singleton instance
+ */
+export const pronunciationLexicon = new PronunciationLexicon();
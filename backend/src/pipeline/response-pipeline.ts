@@ -3,9 +3,10 @@
  * Orchestrates the flow from user input → agent → TTS → response
  */
 
-import { voiceAgent } from '../agent/voice-agent.js';
-import { ttsService, type TtsResult } from './tts-service.js';
-import { processResponseText, type ProcessedText } from '../utils/text-processing.js';
+import type { VoiceAgent } from '../agent/voice-agent.js';
+import { ttsService, type TtsResult, type TtsService } from './tts-service.js';
+import { pronunciationLexicon } from './pronunciation-lexicon.js';
+import { processResponseText, extractSentences, type ProcessedText } from '../utils/text-processing.js';
 
 export interface PipelineResponse {
   displayText: string;  // Text with emojis for display
@@ -15,13 +16,56 @@ export interface PipelineResponse {
   processingTimeMs: number;
 }
 
+/**
+ * A complete sentence of a streamed response, converted for speech
+ */
+export interface PipelineSentence {
+  index: number;
+  displayText: string;
+  speechText: string;
+  tts: TtsResult;
+}
+
+/**
+ * Callbacks for a streamed response
+ */
+export interface PipelineStreamHandlers {
+  onStart?: () => void;                              // First token arrived
+  onChunk?: (text: string) => void;                  // Partial display text
+  onSentence?: (sentence: PipelineSentence) => void; // Sentence ready to speak
+}
+
+/**
+ * Final result of a streamed response
+ */
+export interface PipelineStreamResult {
+  displayText: string;
+  speechText: string;
+  sentenceCount: number;
+  timestamp: string;
+  processingTimeMs: number;
+}
+
+/**
+ * Options for a single pipeline run
+ */
+export interface PipelineOptions {
+  signal?: AbortSignal;     // Cancels the turn (barge-in)
+  confirmation?: boolean;  // Yes/no clicked for a tool waiting for confirmation
+}
+
 /**
  * ResponsePipeline class
  * Handles the complete flow of processing user input and generating response with TTS
+ * Bound to the agent of a single session
  */
 export class ResponsePipeline {
-  constructor() {
-    console.log('[PIPELINE] Response pipeline initialized');
+  private agent: VoiceAgent;
+  private tts: TtsService;
+
+  constructor(agent: VoiceAgent, tts: TtsService = ttsService) {
+    this.agent = agent;
+    this.tts = tts;
   }
 
   /**
@@ -30,7 +74,7 @@ export class ResponsePipeline {
    * 2. Convert to speech via TTS
    * 3. Return combined result
    */
-  async process(userMessage: string): Promise<PipelineResponse> {
+  async process(userMessage: string, options: PipelineOptions = {}): Promise<PipelineResponse> {
     const startTime = Date.now();
 
     try {
@@ -38,15 +82,18 @@ export class ResponsePipeline {
 
       // Step 1: Get text response from agent
       console.log('[PIPELINE] Step 1: Getting agent response...');
-      const agentResponse = await voiceAgent.processMessage(userMessage);
+      const agentResponse = await this.agent.processMessage(userMessage, {
+        signal: options.signal,
+        confirmation: options.confirmation,
+      });
 
       // Step 2: Process text for display vs speech
       console.log('[PIPELINE] Step 2: Processing text (emojis)...');
-      const processedText = processResponseText(agentResponse);
+      const processedText = processResponseText(agentResponse, pronunciationLexicon.getEntries());
 
       // Step 3: Convert speech text to audio (without emojis)
       console.log('[PIPELINE] Step 3: Converting to speech...');
-      const ttsResult = await ttsService.textToSpeech(processedText.speech);
+      const ttsResult = await this.tts.textToSpeech(processedText.speech, this.agent.getPersona().voice);
 
       const processingTimeMs = Date.now() - startTime;
       console.log('[PIPELINE] Processing completed in', processingTimeMs, 'ms');
@@ -66,6 +113,154 @@ export class ResponsePipeline {
     }
   }
 
+  /**
+   * Process user message and stream the response
+   * Text chunks are forwarded as they arrive, and each complete sentence is
+   * converted to speech right away so playback can start before the reply is done
+   */
+  async processStream(
+    userMessage: string,
+    handlers: PipelineStreamHandlers,
+    options: PipelineOptions = {},
+  ): Promise<PipelineStreamResult> {
+    const startTime = Date.now();
+    let started = false;
+    let buffer = '';
+    let sentenceCount = 0;
+
+    // TTS runs sequentially so sentences are delivered in order
+    let speechQueue: Promise<void> = Promise.resolve();
+
+    const start = () => {
+      if (!started) {
+        started = true;
+        handlers.onStart?.();
+      }
+    };
+
+    const queueSentence = (sentence: string) => {
+      const processedText = processResponseText(sentence, pronunciationLexicon.getEntries());
+      if (!processedText.speech) {
+        return;
+      }
+
+      const index = sentenceCount++;
+      speechQueue = speechQueue.then(async () => {
+        if (options.signal?.aborted) {
+          return;
+        }
+        const ttsResult = await this.tts.textToSpeech(processedText.speech, this.agent.getPersona().voice);
+        if (options.signal?.aborted) {
+          return;
+        }
+        handlers.onSentence?.({
+          index,
+          displayText: processedText.display,
+          speechText: processedText.speech,
+          tts: ttsResult,
+        });
+      }).catch((error) => {
+        // A failed sentence must not stop the ones after it, or reject unobserved
+        console.error('[PIPELINE] Error converting sentence', index, 'to speech:', error);
+      });
+    };
+
+    try {
+      console.log('[PIPELINE] Streaming message:', userMessage);
+
+      const agentResponse = await this.agent.processMessage(userMessage, {
+        onChunk: (chunk) => {
+          start();
+          handlers.onChunk?.(chunk);
+
+          buffer += chunk;
+          const { sentences, remainder } = extractSentences(buffer);
+          buffer = remainder;
+          sentences.forEach(queueSentence);
+        },
+        signal: options.signal,
+        confirmation: options.confirmation,
+      });
+
+      // Flush whatever is left after the last sentence boundary
+      start();
+      if (buffer.trim()) {
+        queueSentence(buffer.trim());
+      }
+      await speechQueue;
+
+      const processedText = processResponseText(agentResponse, pronunciationLexicon.getEntries());
+      const processingTimeMs = Date.now() - startTime;
+      console.log('[PIPELINE] Stream completed in', processingTimeMs, 'ms -', sentenceCount, 'sentence(s)');
+
+      return {
+        displayText: processedText.display,
+        speechText: processedText.speech,
+        sentenceCount,
+        timestamp: new Date().toISOString(),
+        processingTimeMs,
+      };
+    } catch (error) {
+      // Sentences already queued still go out before the error
+      await speechQueue;
+      console.error('[PIPELINE] Error streaming message:', error);
+      throw new Error(`Pipeline error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Prepare a message the assistant says on its own (no user input), such as
+   * a due reminder, and record it in the conversation
+   */
+  async announce(text: string): Promise<PipelineResponse> {
+    const startTime = Date.now();
+
+    const processedText = processResponseText(text, pronunciationLexicon.getEntries());
+    const ttsResult = await this.tts.textToSpeech(processedText.speech, this.agent.getPersona().voice);
+
+    // Recorded right before it is sent, so a history request can't see it twice
+    this.agent.addProactiveMessage(processedText.display);
+
+    return {
+      displayText: processedText.display,
+      speechText: processedText.speech,
+      tts: ttsResult,
+      timestamp: new Date().toISOString(),
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Prepare the persona's greeting for speech, a sentence at a time like a
+   * streamed reply, so pre-warmed audio is used
+   * A sentence that can't be converted is left out rather than failing the greeting
+   */
+  async greet(): Promise<PipelineSentence[]> {
+    const { greeting, voice } = this.agent.getPersona();
+    const { sentences, remainder } = extractSentences(greeting);
+    const greetingSentences: PipelineSentence[] = [];
+
+    for (const sentence of [...sentences, remainder.trim()]) {
+      const processedText = processResponseText(sentence, pronunciationLexicon.getEntries());
+      if (!processedText.speech) {
+        continue;
+      }
+
+      try {
+        greetingSentences.push({
+          index: greetingSentences.length,
+          displayText: processedText.display,
+          speechText: processedText.speech,
+          tts: await this.tts.textToSpeech(processedText.speech, voice),
+        });
+      } catch (error) {
+        console.error('[PIPELINE] Error converting greeting sentence to speech:', error);
+      }
+    }
+
+    return greetingSentences;
+  }
+
   /**
    * Test the pipeline
    */
@@ -75,7 +270,7 @@ export class ResponsePipeline {
 
       const response = await this.process('Hello');
 
-      const success = !!(response.text && response.tts);
+      const success = !!(response.displayText && response.tts);
       console.log('[PIPELINE] Test result:', success ? 'SUCCESS' : 'FAILED');
 
       return success;
@@ -90,13 +285,9 @@ export class ResponsePipeline {
    */
   getStats() {
     return {
-      agent: voiceAgent.getInfo(),
-      tts: ttsService.getConfig(),
+      agent: this.agent.getInfo(),
+      tts: this.tts.getConfig(),
+      ttsCache: this.tts.getStats(),
     };
   }
 }
-
-/**
- * Export singleton instance
- */
-export const responsePipeline = new ResponsePipeline();
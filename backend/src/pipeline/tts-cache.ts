@@ -0,0 +1,285 @@
+/**
+ * TTS Cache
+ * Keeps synthesized speech on disk, keyed by a hash of the text and the
+ * settings that change how it sounds, so repeated phrases (greetings, error
+ * messages, short acknowledgements) don't have to be synthesized again
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { envConfig } from '../config/env.js';
+
+/**
+ * A cached clip
+ */
+export interface CachedAudio {
+  data: Buffer;
+  contentType: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Sidecar file stored next to each clip
+ */
+interface CacheEntryFile {
+  contentType: string;
+  metadata: Record<string, any>;
+  text: string;       // For inspecting the cache by hand
+  createdAt: string;
+}
+
+interface CacheEntry {
+  bytes: number;      // Clip plus sidecar
+  lastUsed: number;
+}
+
+/**
+ * Cache hit/miss counters and size
+ */
+export interface TtsCacheStats {
+  directory: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+}
+
+/**
+ * Text as used in cache keys: the same sentence with different spacing or
+ * Unicode forms sounds the same
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache key for a text and everything else that affects the audio
+ */
+export function ttsCacheKey(text: string, settings: unknown[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify([normalizeCacheText(text), ...settings])).digest('hex');
+}
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * TtsCache class
+ * Each entry is <key>.audio plus <key>.json in the cache directory. The least
+ * recently used entries are deleted once the total size exceeds maxBytes; use
+ * is tracked with the sidecar's mtime so the order survives restarts
+ */
+export class TtsCache {
+  private directory: string;
+  private maxBytes: number;
+  private entries = new Map<string, CacheEntry>();  // Least recently used first
+  private totalBytes = 0;
+  private writing = new Set<string>();  // Keys being written
+  private loaded?: Promise<void>;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(directory: string = path.join(envConfig.dataDir, 'tts-cache'), maxBytes: number = 100 * 1024 * 1024) {
+    this.directory = directory;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Get a cached clip, or undefined on a miss
+   */
+  async get(key: string): Promise<CachedAudio | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      const [data, raw] = await Promise.all([
+        fs.promises.readFile(this.audioPath(key)),
+        fs.promises.readFile(this.entryPath(key), 'utf-8'),
+      ]);
+      const file = JSON.parse(raw) as CacheEntryFile;
+
+      // Most recently used goes last
+      this.entries.delete(key);
+      entry.lastUsed = Date.now();
+      this.entries.set(key, entry);
+      const now = new Date(entry.lastUsed);
+      fs.promises.utimes(this.entryPath(key), now, now).catch(() => {});
+
+      this.hits++;
+      return { data, contentType: file.contentType, metadata: file.metadata };
+    } catch (error) {
+      console.warn('[TTS CACHE] Dropping unreadable entry', key, ':', error instanceof Error ? error.message : error);
+      await this.delete(key);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a clip, then evict the least recently used entries beyond maxBytes
+   */
+  async put(key: string, text: string, audio: CachedAudio): Promise<void> {
+    await this.load();
+    if (this.entries.has(key) || this.writing.has(key) || !KEY_PATTERN.test(key)) {
+      return;
+    }
+
+    const file: CacheEntryFile = {
+      contentType: audio.contentType,
+      metadata: audio.metadata,
+      text,
+      createdAt: new Date().toISOString(),
+    };
+    const json = JSON.stringify(file, null, 2);
+
+    this.writing.add(key);
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      // The sidecar is written last: a clip without one is ignored on load
+      await writeAtomic(this.audioPath(key), audio.data);
+      await writeAtomic(this.entryPath(key), json);
+    } finally {
+      this.writing.delete(key);
+    }
+
+    const bytes = audio.data.length + Buffer.byteLength(json);
+    this.entries.set(key, { bytes, lastUsed: Date.now() });
+    this.totalBytes += bytes;
+
+    for (const oldKey of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes || oldKey === key) {
+        break;
+      }
+      await this.delete(oldKey);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Check for an entry without counting a hit or a miss
+   */
+  async has(key: string): Promise<boolean> {
+    await this.load();
+    return this.entries.has(key);
+  }
+
+  /**
+   * Delete every entry
+   */
+  async clear(): Promise<number> {
+    await this.load();
+    const count = this.entries.size;
+    for (const key of [...this.entries.keys()]) {
+      await this.delete(key);
+    }
+    console.log('[TTS CACHE] Cleared', count, 'entries');
+    return count;
+  }
+
+  /**
+   * Size and hit rate
+   */
+  getStats(): TtsCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      directory: this.directory,
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round(this.hits / lookups * 1000) / 1000 : 0,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Read the entries already on disk, once
+   */
+  private load(): Promise<void> {
+    this.loaded ??= this.scan();
+    return this.loaded;
+  }
+
+  private async scan(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[TTS CACHE] Failed to read', this.directory, ':', error);
+      }
+      return;
+    }
+
+    // Left over from a write that didn't finish
+    const names = new Set(files);
+    for (const file of files) {
+      if (file.endsWith('.tmp') || (file.endsWith('.audio') && !names.has(file.replace(/\.audio$/, '.json')))) {
+        await fs.promises.rm(path.join(this.directory, file), { force: true });
+      }
+    }
+
+    const found: Array<[string, CacheEntry]> = [];
+    for (const file of files) {
+      const key = file.slice(0, -'.json'.length);
+      if (!file.endsWith('.json') || !KEY_PATTERN.test(key)) {
+        continue;
+      }
+
+      try {
+        const [entryStat, audioStat] = await Promise.all([
+          fs.promises.stat(this.entryPath(key)),
+          fs.promises.stat(this.audioPath(key)),
+        ]);
+        found.push([key, { bytes: entryStat.size + audioStat.size, lastUsed: entryStat.mtimeMs }]);
+      } catch {
+        await fs.promises.rm(this.entryPath(key), { force: true });  // Clip is gone
+      }
+    }
+
+    for (const [key, entry] of found.sort((a, b) => a[1].lastUsed - b[1].lastUsed)) {
+      this.entries.set(key, entry);
+      this.totalBytes += entry.bytes;
+    }
+
+    console.log('[TTS CACHE] Loaded', this.entries.size, 'entries,', Math.round(this.totalBytes / 1024), 'KB from', this.directory);
+  }
+
+  private async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.bytes;
+    }
+    await Promise.all([
+      fs.promises.rm(this.entryPath(key), { force: true }),
+      fs.promises.rm(this.audioPath(key), { force: true }),
+    ]);
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  private audioPath(key: string): string {
+    return path.join(this.directory, `${key}.audio`);
+  }
+}
+
+/**
+ * Write a file via a temporary file, so a crash never leaves half a file
+ */
+async function writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, data);
+  await fs.promises.rename(tmpPath, filePath);
+}
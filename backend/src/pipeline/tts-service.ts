@@ -3,11 +3,40 @@
  * Handles text-to-speech conversion with multiple backend support
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { getTtsConfig, type TtsConfig } from '../config/tts.js';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getTtsConfig, type TtsConfig, type TtsProvider, type TtsVoiceOptions } from '../config/tts.js';
+import { encodeWav, readWavInfo, repairWavSizes } from '../utils/wav.js';
+import { extractSentences, processResponseText } from '../utils/text-processing.js';
+import { audioStore } from './audio-store.js';
+import { pronunciationLexicon } from './pronunciation-lexicon.js';
+import { TtsCache, ttsCacheKey } from './tts-cache.js';
 
-const execAsync = promisify(exec);
+const TTS_PROCESS_TIMEOUT_MS = 30000;
+const HTTP_TTS_DEFAULT_TIMEOUT_MS = 15000;
+const PIPER_DEFAULT_SAMPLE_RATE = 22050;
+
+/**
+ * A phrase to synthesize ahead of time, in the voice it will be spoken with
+ */
+export interface PrewarmPhrase {
+  text: string;
+  voice?: TtsVoiceOptions;
+}
+
+/**
+ * Outcome of the last pre-warm run
+ */
+export interface PrewarmStatus {
+  running: boolean;
+  sentences: number;
+  synthesized: number;
+  alreadyCached: number;
+  failed: number;
+  startedAt: string;
+  durationMs?: number;
+}
 
 export interface TtsResult {
   provider: string;
@@ -28,17 +57,23 @@ export interface TtsResult {
  */
 export class TtsService {
   private config: TtsConfig;
+  private cache?: TtsCache;
+  private prewarmStatus?: PrewarmStatus;
 
-  constructor() {
-    this.config = getTtsConfig();
-    console.log('[TTS] Service initialized with provider:', this.config.provider);
+  constructor(config: TtsConfig = getTtsConfig()) {
+    this.config = config;
+    if (config.cacheEnabled && config.provider !== 'browser') {
+      this.cache = new TtsCache(config.cacheDir, Math.round((config.cacheMaxMb ?? 100) * 1024 * 1024));
+    }
+    console.log('[TTS] Service initialized with provider:', this.config.provider, this.cache ? '(cached)' : '');
   }
 
   /**
    * Convert text to speech
    * Returns metadata for browser-based TTS or audio data for server-side TTS
+   * Voice options override the configured voice for this request
    */
-  async textToSpeech(text: string): Promise<TtsResult> {
+  async textToSpeech(text: string, voice: TtsVoiceOptions = {}): Promise<TtsResult> {
     if (!this.config.enabled) {
       console.log('[TTS] TTS disabled, returning text only');
       return {
@@ -48,22 +83,54 @@ export class TtsService {
       };
     }
 
+    const key = this.cacheKey(text, voice);
+    if (!this.cache || !key) {
+      return this.synthesize(text, voice);
+    }
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      console.log('[TTS] Cache hit for:', text.slice(0, 50) + '...');
+      const id = audioStore.put(cached.data, cached.contentType);
+      return {
+        provider: this.config.provider,
+        method: 'audio',
+        text,
+        audioUrl: audioStore.getUrl(id),
+        metadata: { ...cached.metadata, cached: true },
+      };
+    }
+
+    const result = await this.synthesize(text, voice);
+    this.saveToCache(key, text, result).catch((error) => {
+      console.error('[TTS] Failed to cache audio:', error);
+    });
+    return result;
+  }
+
+  /**
+   * Synthesize with the configured provider
+   */
+  private async synthesize(text: string, voice: TtsVoiceOptions): Promise<TtsResult> {
     switch (this.config.provider) {
       case 'browser':
-        return this.browserTts(text);
+        return this.browserTts(text, voice);
 
       case 'system':
-        return this.systemTts(text);
+        return this.systemTts(text, voice);
 
       case 'piper':
-        return this.piperTts(text);
+        return this.piperTts(text, voice);
 
       case 'coqui':
-        return this.coquiTts(text);
+        return this.httpTts(text, voice, 'coqui');
+
+      case 'openai':
+        return this.httpTts(text, voice, 'openai');
 
       default:
         console.warn('[TTS] Unknown provider, falling back to browser TTS');
-        return this.browserTts(text);
+        return this.browserTts(text, voice);
     }
   }
 
@@ -71,7 +138,7 @@ export class TtsService {
    * Browser-based TTS (Web Speech API)
    * Returns text for frontend to speak using browser's TTS
    */
-  private async browserTts(text: string): Promise<TtsResult> {
+  private async browserTts(text: string, voice: TtsVoiceOptions): Promise<TtsResult> {
     console.log('[TTS] Using browser TTS for:', text.slice(0, 50) + '...');
 
     return {
@@ -79,98 +146,334 @@ export class TtsService {
       method: 'browser',
       text,
       metadata: {
-        voice: this.config.browserVoice,
-        rate: this.config.rate,
-        pitch: this.config.pitch,
-        volume: this.config.volume,
+        voice: voice.browserVoice ?? this.config.browserVoice,
+        rate: voice.rate ?? this.config.rate,
+        pitch: voice.pitch ?? this.config.pitch,
+        volume: voice.volume ?? this.config.volume,
       },
     };
   }
 
   /**
-   * System TTS (say command on macOS, espeak on Linux)
-   * Generates audio file using system command
+   * System TTS (espeak-ng, or a command that takes the same options)
+   * The text goes to the command's stdin, never through a shell, and the
+   * WAV it writes to stdout is served from the audio route. Rate, pitch and
+   * volume are rendered into the audio.
    */
-  private async systemTts(text: string): Promise<TtsResult> {
+  private async systemTts(text: string, voice: TtsVoiceOptions): Promise<TtsResult> {
     try {
       console.log('[TTS] Using system TTS for:', text.slice(0, 50) + '...');
 
-      // On macOS, use 'say' command
-      // Note: This plays audio on the server, not ideal for web app
-      // Better to generate audio file and stream it
+      const command = this.config.systemCommand || 'espeak-ng';
+      const rate = voice.rate ?? this.config.rate ?? 1.0;
+      const pitch = voice.pitch ?? this.config.pitch ?? 1.0;
+      const volume = voice.volume ?? this.config.volume ?? 1.0;
 
-      const command = this.config.systemCommand || 'say';
-      const rate = Math.round((this.config.rate || 1.0) * 200); // Convert to words per minute
+      // espeak-ng: -s words per minute (default 175), -p pitch 0-99 (default 50), -a amplitude 0-200 (default 100)
+      const args = [
+        '--stdout',
+        '--stdin',
+        '-s', String(Math.round(clamp(rate * 175, 80, 450))),
+        '-p', String(Math.round(clamp(pitch * 50, 0, 99))),
+        '-a', String(Math.round(clamp(volume * 100, 0, 200))),
+      ];
+      if (this.config.systemVoice) {
+        args.push('-v', this.config.systemVoice);
+      }
 
-      // For now, just log that we'd use system TTS
-      // In production, you'd generate an audio file
-      console.log('[TTS] Would execute:', `${command} -r ${rate} "${text}"`);
+      const wav = repairWavSizes(await runTtsProcess(command, args, text));
+      const info = readWavInfo(wav);
+      if (!info) {
+        throw new Error(`${command} did not produce WAV audio`);
+      }
+      const id = audioStore.put(wav, 'audio/wav');
 
       return {
         provider: 'system',
-        method: 'browser', // Fallback to browser for now
+        method: 'audio',
         text,
+        audioUrl: audioStore.getUrl(id),
         metadata: {
+          duration: info.durationMs / 1000,
+          voice: this.config.systemVoice,
+          format: 'wav',
+          sampleRate: info.sampleRate,
           command,
-          rate,
         },
       };
     } catch (error) {
-      console.error('[TTS] System TTS error:', error);
-      // Fallback to browser TTS
-      return this.browserTts(text);
+      console.error('[TTS] System TTS error:', error instanceof Error ? error.message : error);
+      console.log('[TTS] Falling back to browser TTS');
+      return this.browserTts(text, voice);
     }
   }
 
   /**
    * Piper TTS (local neural TTS)
-   * Fast, high-quality local TTS
+   * Runs Piper once per text and serves the WAV from the audio route.
+   * Piper has no pitch control; volume is applied by the player.
    */
-  private async piperTts(text: string): Promise<TtsResult> {
+  private async piperTts(text: string, voice: TtsVoiceOptions): Promise<TtsResult> {
+    const model = this.config.piperModel;
+    if (!model) {
+      console.warn('[TTS] No Piper model configured (PIPER_MODEL) - falling back to browser TTS');
+      return this.browserTts(text, voice);
+    }
+
     try {
-      console.log('[TTS] Piper TTS requested but not implemented yet');
-      console.log('[TTS] Falling back to browser TTS');
+      console.log('[TTS] Using Piper TTS for:', text.slice(0, 50) + '...');
+
+      const startTime = Date.now();
+      const rate = voice.rate ?? this.config.rate ?? 1.0;
+      const args = ['--model', model, '--output-raw'];
+      if (rate !== 1) {
+        args.push('--length_scale', (1 / clamp(rate, 0.1, 10)).toFixed(3));  // Slower speech = longer
+      }
+      if (this.config.piperSpeaker !== undefined) {
+        args.push('--speaker', String(this.config.piperSpeaker));
+      }
+
+      // Piper reads one utterance per line
+      const [pcm, sampleRate] = await Promise.all([
+        runTtsProcess(this.config.piperPath || 'piper', args, text.replace(/\s*\n\s*/g, ' ')),
+        getPiperSampleRate(model),
+      ]);
 
-      // TODO: Implement Piper TTS integration
-      // This would require:
-      // 1. Installing Piper: https://github.com/rhasspy/piper
-      // 2. Downloading a voice model
-      // 3. Running: echo "text" | piper --model model.onnx --output_file output.wav
+      const wav = encodeWav(pcm, { sampleRate, channels: 1, bitsPerSample: 16 });
+      const id = audioStore.put(wav, 'audio/wav');
+      console.log('[TTS] Piper produced', wav.length, 'bytes in', Date.now() - startTime, 'ms');
 
-      return this.browserTts(text);
+      return {
+        provider: 'piper',
+        method: 'audio',
+        text,
+        audioUrl: audioStore.getUrl(id),
+        metadata: {
+          duration: pcm.length / (sampleRate * 2),
+          voice: path.basename(model, '.onnx'),
+          format: 'wav',
+          sampleRate,
+          volume: voice.volume ?? this.config.volume,
+        },
+      };
     } catch (error) {
-      console.error('[TTS] Piper TTS error:', error);
-      return this.browserTts(text);
+      console.error('[TTS] Piper TTS error:', error instanceof Error ? error.message : error);
+      console.log('[TTS] Falling back to browser TTS');
+      return this.browserTts(text, voice);
     }
   }
 
   /**
-   * Coqui TTS (requires separate Python service)
-   * High-quality TTS with multiple voices
+   * HTTP TTS server: Coqui's /api/tts, or an OpenAI-compatible
+   * /audio/speech endpoint (Kokoro-FastAPI, openedai-speech, ...)
+   * The audio is served from the audio route like the local engines'. Pitch
+   * isn't supported by either API; volume is applied by the player.
    */
-  private async coquiTts(text: string): Promise<TtsResult> {
+  private async httpTts(text: string, voice: TtsVoiceOptions, api: 'coqui' | 'openai'): Promise<TtsResult> {
+    const timeoutMs = this.config.httpTimeoutMs || HTTP_TTS_DEFAULT_TIMEOUT_MS;
+
     try {
-      console.log('[TTS] Coqui TTS requested but not implemented yet');
-      console.log('[TTS] Falling back to browser TTS');
+      console.log(`[TTS] Using ${api} TTS server for:`, text.slice(0, 50) + '...');
+
+      const startTime = Date.now();
+      const request = api === 'coqui' ? this.buildCoquiRequest(text) : this.buildOpenAiRequest(text, voice);
+      const response = await fetch(request.url, { ...request.init, signal: AbortSignal.timeout(timeoutMs) });
+
+      if (!response.ok) {
+        const body = (await response.text().catch(() => '')).trim().slice(0, 200);
+        throw new Error(`HTTP ${response.status}${body ? `: ${body}` : ''}`);
+      }
+
+      const contentType = response.headers.get('content-type')?.split(';')[0].trim() || 'audio/wav';
+      if (!contentType.startsWith('audio/') && contentType !== 'application/octet-stream') {
+        throw new Error(`Expected audio but got ${contentType}`);
+      }
 
-      // TODO: Implement Coqui TTS integration
-      // This would require:
-      // 1. Running Coqui TTS server: docker run -p 5002:5002 ghcr.io/coqui-ai/tts
-      // 2. Making HTTP request to generate audio
-      // 3. Streaming audio back to client
+      let audio: Buffer = Buffer.from(await response.arrayBuffer());
+      if (audio.length === 0) {
+        throw new Error('Empty response');
+      }
 
-      return this.browserTts(text);
+      const info = readWavInfo(audio);
+      if (info) {
+        audio = repairWavSizes(audio);
+      }
+      const id = audioStore.put(audio, info ? 'audio/wav' : contentType);
+      console.log(`[TTS] ${api} TTS server produced`, audio.length, 'bytes in', Date.now() - startTime, 'ms');
+
+      return {
+        provider: api,
+        method: 'audio',
+        text,
+        audioUrl: audioStore.getUrl(id),
+        metadata: {
+          duration: info ? info.durationMs / 1000 : undefined,
+          voice: api === 'coqui' ? this.config.coquiSpeaker : this.config.openaiTtsVoice,
+          format: info ? 'wav' : contentType.replace(/^audio\//, ''),
+          sampleRate: info?.sampleRate,
+          volume: voice.volume ?? this.config.volume,
+        },
+      };
     } catch (error) {
-      console.error('[TTS] Coqui TTS error:', error);
-      return this.browserTts(text);
+      const reason = error instanceof Error && error.name === 'TimeoutError'
+        ? `no response within ${timeoutMs / 1000} s`
+        : describeFetchError(error);
+      console.error(`[TTS] ${api} TTS server error:`, reason);
+      console.log('[TTS] Falling back to browser TTS');
+      return this.browserTts(text, voice);
     }
   }
 
+  /**
+   * Coqui TTS server: GET /api/tts?text=...&speaker_id=...&language_id=...
+   */
+  private buildCoquiRequest(text: string): { url: string; init: RequestInit } {
+    const url = new URL(`${(this.config.coquiUrl || '').replace(/\/+$/, '')}/api/tts`);
+    url.searchParams.set('text', text);
+    if (this.config.coquiSpeaker) {
+      url.searchParams.set('speaker_id', this.config.coquiSpeaker);
+    }
+    if (this.config.coquiLanguage) {
+      url.searchParams.set('language_id', this.config.coquiLanguage);
+    }
+
+    return { url: url.href, init: { method: 'GET' } };
+  }
+
+  /**
+   * OpenAI-compatible speech: POST {base}/audio/speech with a JSON body
+   */
+  private buildOpenAiRequest(text: string, voice: TtsVoiceOptions): { url: string; init: RequestInit } {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.openaiTtsApiKey) {
+      headers.Authorization = `Bearer ${this.config.openaiTtsApiKey}`;
+    }
+
+    return {
+      url: `${(this.config.openaiTtsUrl || '').replace(/\/+$/, '')}/audio/speech`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.openaiTtsModel,
+          voice: this.config.openaiTtsVoice,
+          input: text,
+          response_format: 'wav',
+          speed: clamp(voice.rate ?? this.config.rate ?? 1.0, 0.25, 4),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Cache key for a sentence: the text plus the provider settings, voice,
+   * rate, pitch and volume that shape the audio
+   * Undefined for providers that don't produce audio
+   */
+  private cacheKey(text: string, voice: TtsVoiceOptions): string | undefined {
+    const config = this.config;
+    const voiceSettings: Partial<Record<TtsProvider, unknown[]>> = {
+      system: [config.systemCommand, config.systemVoice],
+      piper: [config.piperModel, config.piperSpeaker],
+      coqui: [config.coquiUrl, config.coquiSpeaker, config.coquiLanguage],
+      openai: [config.openaiTtsUrl, config.openaiTtsModel, config.openaiTtsVoice],
+    };
+    const settings = voiceSettings[config.provider];
+    if (!settings) {
+      return undefined;
+    }
+
+    return ttsCacheKey(text, [
+      config.provider,
+      ...settings,
+      voice.rate ?? config.rate,
+      voice.pitch ?? config.pitch,
+      voice.volume ?? config.volume,
+    ]);
+  }
+
+  /**
+   * Store synthesized audio in the cache (the browser fallback is not cached)
+   * Returns whether there was audio to store
+   */
+  private async saveToCache(key: string, text: string, result: TtsResult): Promise<boolean> {
+    const clip = result.method === 'audio' && result.audioUrl ? audioStore.getByUrl(result.audioUrl) : undefined;
+    if (!this.cache || !clip) {
+      return false;
+    }
+
+    await this.cache.put(key, text, { data: clip.data, contentType: clip.contentType, metadata: result.metadata ?? {} });
+    return true;
+  }
+
+  /**
+   * Synthesize known phrases into the cache ahead of time, so they start
+   * playing at once when they come up
+   * Phrases are split into sentences the way streamed replies are
+   */
+  async prewarm(phrases: PrewarmPhrase[]): Promise<void> {
+    if (!this.cache || !this.config.enabled || this.prewarmStatus?.running) {
+      return;
+    }
+
+    const status: PrewarmStatus = { running: true, sentences: 0, synthesized: 0, alreadyCached: 0, failed: 0, startedAt: new Date().toISOString() };
+    this.prewarmStatus = status;
+    const startTime = Date.now();
+    const seen = new Set<string>();
+
+    try {
+      for (const phrase of phrases) {
+        const voice = phrase.voice ?? {};
+        const { sentences, remainder } = extractSentences(phrase.text);
+
+        for (const sentence of [...sentences, remainder.trim()]) {
+          const speech = processResponseText(sentence, pronunciationLexicon.getEntries()).speech;
+          const key = speech ? this.cacheKey(speech, voice) : undefined;
+          if (!key || seen.has(key)) {
+            continue;
+          }
+          seen.add(key);
+          status.sentences++;
+
+          if (await this.cache.has(key)) {
+            status.alreadyCached++;
+          } else if (await this.saveToCache(key, speech, await this.synthesize(speech, voice))) {
+            status.synthesized++;
+          } else {
+            status.failed++;
+          }
+        }
+      }
+    } finally {
+      status.running = false;
+      status.durationMs = Date.now() - startTime;
+      console.log('[TTS] Pre-warmed cache:', status.synthesized, 'synthesized,', status.alreadyCached, 'already cached,', status.failed, 'failed in', status.durationMs, 'ms');
+    }
+  }
+
+  /**
+   * Cache and pre-warm statistics
+   */
+  getStats() {
+    return {
+      provider: this.config.provider,
+      cache: this.cache?.getStats() ?? null,
+      prewarm: this.prewarmStatus ?? null,
+    };
+  }
+
+  /**
+   * Delete all cached audio
+   */
+  async clearCache(): Promise<number> {
+    return this.cache ? this.cache.clear() : 0;
+  }
+
   /**
    * Get TTS configuration
    */
   getConfig(): TtsConfig {
-    return { ...this.config };
+    return { ...this.config, openaiTtsApiKey: this.config.openaiTtsApiKey ? '***' : undefined };
   }
 
   /**
@@ -187,6 +490,88 @@ export class TtsService {
   }
 }
 
+/**
+ * Run a local TTS engine: the text goes to its stdin (no shell, so nothing in
+ * the text is interpreted) and the audio it writes to stdout is returned
+ */
+function runTtsProcess(command: string, args: string[], text: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} did not finish within ${TTS_PROCESS_TIMEOUT_MS / 1000} s`));
+    }, TTS_PROCESS_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.stdin.on('error', () => {});  // The process exiting early is reported on close
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      const audio = Buffer.concat(chunks);
+      if (code === 0 && audio.length > 0) {
+        resolve(audio);
+      } else {
+        const reason = stderr.trim().split('\n').pop() || 'no audio produced';
+        reject(new Error(`${command} exited with code ${code}: ${reason}`));
+      }
+    });
+
+    child.stdin.end(text.trim() + '\n');
+  });
+}
+
+/**
+ * Readable reason for a failed request ("fetch failed" hides the cause)
+ */
+function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  const cause = (error as Error & { cause?: { code?: string; message?: string } }).cause;
+  return cause ? `${error.message} (${cause.code ?? cause.message})` : error.message;
+}
+
+/**
+ * Keep a number within a range
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Sample rate of a Piper voice, from the .onnx.json config next to the model
+ * (cached per model)
+ */
+const piperSampleRates = new Map<string, Promise<number>>();
+
+function getPiperSampleRate(model: string): Promise<number> {
+  let sampleRate = piperSampleRates.get(model);
+  if (!sampleRate) {
+    sampleRate = fs.promises.readFile(`${model}.json`, 'utf-8')
+      .then(raw => {
+        const rate = JSON.parse(raw)?.audio?.sample_rate;
+        return Number.isInteger(rate) && rate > 0 ? rate : PIPER_DEFAULT_SAMPLE_RATE;
+      })
+      .catch(() => {
+        console.warn('[TTS] No voice config at', `${model}.json`, '- assuming', PIPER_DEFAULT_SAMPLE_RATE, 'Hz');
+        return PIPER_DEFAULT_SAMPLE_RATE;
+      });
+    piperSampleRates.set(model, sampleRate);
+  }
+  return sampleRate;
+}
+
 /**
  * Export singleton instance
  */
@@ -3,13 +3,27 @@
  * Express + Socket.io server with Voice Agent integration
  */
 
-import express from 'express';
+import express, { type Request, type Response } from 'express';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import cors from 'cors';
 import { envConfig } from './config/env.js';
-import { voiceAgent } from './agent/voice-agent.js';
-import { responsePipeline } from './pipeline/response-pipeline.js';
+import { agentConfig, AGENT_NAMES } from './config/agents.js';
+import { getModelConfig } from './config/models.js';
+import { sessionManager } from './agent/session-manager.js';
+import { credentials } from './agent/credentials.js';
+import { factStore } from './memory/fact-store.js';
+import { reminderStore, toAnnouncement, type Reminder } from './memory/reminder-store.js';
+import { knowledgeBase } from './knowledge/knowledge-base.js';
+import { audioStore } from './pipeline/audio-store.js';
+import { ttsService, type PrewarmPhrase } from './pipeline/tts-service.js';
+import { ttsConfig } from './config/tts.js';
+import { pronunciationLexicon, validatePronunciation } from './pipeline/pronunciation-lexicon.js';
+import { transcriptStore } from './memory/transcript-store.js';
+import { personaRegistry, toPersonaInfo } from './agent/personas.js';
+import { toolPlugins } from './tools/plugin-loader.js';
+import { mcpServers } from './tools/mcp-servers.js';
+import { parseClientTools, toolError } from './tools/registry.js';
 
 // Create Express app
 const app = express();
@@ -34,15 +48,15 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    agent: voiceAgent.getInfo(),
+    agent: sessionManager.getInfo(),
   });
 });
 
 /**
- * Agent info endpoint
+ * Agent info endpoint (models + session counts)
  */
 app.get('/api/agent/info', (req, res) => {
-  res.json(voiceAgent.getInfo());
+  res.json(sessionManager.getInfo());
 });
 
 /**
@@ -50,7 +64,7 @@ app.get('/api/agent/info', (req, res) => {
  */
 app.post('/api/agent/test', async (req, res) => {
   try {
-    const isConnected = await voiceAgent.testConnection();
+    const isConnected = await sessionManager.testConnection();
     res.json({
       success: isConnected,
       message: isConnected ? 'Agent is connected and ready' : 'Agent connection failed',
@@ -63,33 +77,480 @@ app.post('/api/agent/test', async (req, res) => {
   }
 });
 
+/**
+ * User a request is made for, from its "Authorization: Bearer <userToken>"
+ * header (the token the socket's 'connected' event gives the client)
+ * Answers 401 and returns undefined without a valid token
+ */
+function authenticate(req: Request, res: Response): string | undefined {
+  const userId = credentials.verifyUser(req.get('authorization')?.replace(/^Bearer\s+/i, ''));
+  if (!userId) {
+    res.status(401).json({ success: false, error: 'A valid user token is required' });
+  }
+  return userId;
+}
+
+/**
+ * Long-term memory endpoints
+ * Let users see and delete what Pixel remembers about them
+ */
+app.get('/api/memory', (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+  res.json({ userId, facts: factStore.list(userId) });
+});
+
+app.delete('/api/memory', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  try {
+    const deleted = await factStore.clear(userId);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.delete('/api/memory/:factId', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  try {
+    const fact = await factStore.forget(userId, req.params.factId);
+    if (!fact) {
+      res.status(404).json({ success: false, error: 'Fact not found' });
+      return;
+    }
+    res.json({ success: true, fact });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Session transcript endpoints
+ */
+app.get('/api/sessions', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  try {
+    res.json({ sessions: await transcriptStore.list(userId) });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.get('/api/sessions/:sessionId', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  // Someone else's session is reported as missing, not as forbidden
+  const session = await sessionManager.getTranscript(req.params.sessionId);
+  if (!session || session.userId !== userId) {
+    res.status(404).json({ success: false, error: 'Session not found' });
+    return;
+  }
+  res.json(session);
+});
+
+app.delete('/api/sessions/:sessionId', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  const { sessionId } = req.params;
+  if ((await sessionManager.getTranscript(sessionId))?.userId !== userId) {
+    res.status(404).json({ success: false, error: 'Session not found' });
+    return;
+  }
+
+  if (sessionManager.get(sessionId)?.socketId) {
+    res.status(409).json({ success: false, error: 'Session is in use by a connected client' });
+    return;
+  }
+
+  try {
+    const deleted = await sessionManager.delete(sessionId);
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Synthesized speech (server-side TTS), fetched by the browser's audio player
+ * Clips expire a few minutes after they are made
+ */
+app.get('/api/tts/audio/:id', (req, res) => {
+  const clip = audioStore.get(req.params.id);
+  if (!clip) {
+    res.status(404).json({ success: false, error: 'Audio not found or expired' });
+    return;
+  }
+
+  res.set({
+    'Content-Type': clip.contentType,
+    'Content-Length': String(clip.data.length),
+    'Cache-Control': 'private, max-age=600',
+  });
+  res.send(clip.data);
+});
+
+/**
+ * TTS cache endpoints
+ * Hit rate and size of the disk cache of synthesized speech, and clearing it
+ * (e.g. after replacing a voice model under the same file name), which needs a user token
+ */
+app.get('/api/tts/cache', (req, res) => {
+  res.json(ttsService.getStats());
+});
+
+app.delete('/api/tts/cache', async (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  try {
+    const deleted = await ttsService.clearCache();
+    res.json({ success: true, deleted });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Knowledge base endpoints
+ * Inspect the document index, try a search, and re-index after editing documents
+ * Everything but the index stats needs a user token
+ */
+app.get('/api/knowledge', (req, res) => {
+  res.json(knowledgeBase.getStats());
+});
+
+app.get('/api/knowledge/search', async (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  if (!query.trim()) {
+    res.status(400).json({ success: false, error: 'Query parameter "q" is required' });
+    return;
+  }
+
+  try {
+    res.json({ query, passages: await knowledgeBase.search(query) });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.get('/api/knowledge/documents/*source', (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  const source = ([] as string[]).concat(req.params.source).join('/');
+  const document = knowledgeBase.getDocument(source);
+  if (!document) {
+    res.status(404).json({ success: false, error: 'Document not indexed' });
+    return;
+  }
+  res.json(document);
+});
+
+app.post('/api/knowledge/reindex', async (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  try {
+    res.json({ success: true, ...await knowledgeBase.reindex() });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * MCP server status
+ * Servers are added and removed by editing agents.config.json, never over REST
+ */
+app.get('/api/mcp', (req, res) => {
+  res.json({ servers: mcpServers.getStatus() });
+});
+
+/**
+ * Pronunciation lexicon endpoints
+ * Words the voice should say differently (stored in pronunciations.json)
+ * The lexicon is shared by every user, so changing it needs a user token
+ */
+app.get('/api/pronunciations', (req, res) => {
+  res.json({ path: pronunciationLexicon.getPath(), entries: pronunciationLexicon.getEntries() });
+});
+
+app.put('/api/pronunciations/:word', async (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  const { word } = req.params;
+  const say = req.body?.say;
+  const errors = validatePronunciation(word, say);
+  if (errors.length > 0) {
+    res.status(400).json({ success: false, error: errors.join('; ') });
+    return;
+  }
+
+  try {
+    await pronunciationLexicon.set(word, say);
+    res.json({ success: true, word: word.trim(), say: say.trim() });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.delete('/api/pronunciations/:word', async (req, res) => {
+  if (!authenticate(req, res)) {
+    return;
+  }
+
+  try {
+    if (!await pronunciationLexicon.remove(req.params.word)) {
+      res.status(404).json({ success: false, error: 'Word not in the lexicon' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Persona endpoints
+ */
+app.get('/api/personas', (req, res) => {
+  res.json({ personas: personaRegistry.list().map(toPersonaInfo) });
+});
+
+app.post('/api/sessions/:sessionId/persona', async (req, res) => {
+  const userId = authenticate(req, res);
+  if (!userId) {
+    return;
+  }
+
+  const session = sessionManager.get(req.params.sessionId);
+  if (!session || session.userId !== userId) {
+    res.status(404).json({ success: false, error: 'Session not active' });
+    return;
+  }
+
+  try {
+    const persona = await sessionManager.setPersona(session, req.body?.personaId);
+
+    // Let the connected client update its voice and avatar, and play the greeting
+    if (session.socketId) {
+      io.to(session.socketId).emit('persona-changed', { persona: toPersonaInfo(persona), greeting: await session.pipeline.greet() });
+    }
+
+    res.json({ success: true, persona: toPersonaInfo(persona) });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Push a due timer or reminder to every connected session of its user, as an
+ * assistant turn without user input
+ * Returns false when none is connected (or none could be sent to), so it is
+ * delivered on reconnect
+ */
+async function deliverReminder(reminder: Reminder): Promise<boolean> {
+  const sessions = sessionManager.getConnected(reminder.userId);
+  if (sessions.length === 0) {
+    return false;
+  }
+
+  const text = toAnnouncement(reminder);
+  const results = await Promise.allSettled(sessions.map(async (session) => {
+    // Let a running turn finish so the announcement comes after its reply
+    await session.ready;
+    await session.activeTurn?.done;
+
+    const response = await session.pipeline.announce(text);
+    if (session.socketId) {
+      io.to(session.socketId).emit('agent-proactive', {
+        displayText: response.displayText,
+        speechText: response.speechText,
+        tts: response.tts,
+        timestamp: response.timestamp,
+        reminder: { id: reminder.id, kind: reminder.kind, dueAt: reminder.dueAt },
+      });
+    }
+
+    sessionManager.touch(session);
+    await sessionManager.save(session);
+  }));
+
+  // Delivered once any session got it, so it isn't announced again on reconnect
+  const delivered = results.filter(result => result.status === 'fulfilled').length;
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('[SERVER] Failed to deliver', reminder.kind, reminder.id, ':', result.reason);
+    }
+  }
+  if (delivered === 0) {
+    return false;
+  }
+
+  console.log('[SERVER] Delivered', reminder.kind, reminder.id, 'to', delivered, 'of', sessions.length, 'session(s) of', reminder.userId);
+  return true;
+}
+
 /**
  * Socket.io connection handler
  */
 io.on('connection', (socket) => {
-  console.log('[SERVER] Client connected:', socket.id);
+  // Long-term memory is keyed by a user id the server issued; a client without
+  // a valid token for one (a first visit, or a headless client) becomes a new user
+  const requestedUserToken = socket.handshake.auth?.userToken;
+  const verifiedUserId = credentials.verifyUser(requestedUserToken);
+  const { userId, userToken } = verifiedUserId
+    ? { userId: verifiedUserId, userToken: requestedUserToken as string }
+    : credentials.issueUser();
+
+  // Clients resume their session with the token they were given for it, otherwise each socket gets a new one
+  const requestedSessionToken = socket.handshake.auth?.sessionToken;
+  const resumedSessionId = credentials.verifySession(userId, requestedSessionToken);
+  const { sessionId, sessionToken } = resumedSessionId
+    ? { sessionId: resumedSessionId, sessionToken: requestedSessionToken as string }
+    : credentials.issueSession(userId);
+
+  // Frontend tools the client can run (none for a headless client)
+  const clientTools = parseClientTools(socket.handshake.auth?.tools);
+
+  const session = sessionManager.attach(sessionId, socket.id, userId, clientTools);
+  const { agent, pipeline, pendingToolExecutions } = session;
+
+  console.log('[SERVER] Client connected:', socket.id, '- session:', sessionId, '- user:', userId,
+    '- client tools:', clientTools.length > 0 ? clientTools.map(tool => `${tool.name}@${tool.version}`).join(', ') : 'none');
+
+  // Show the confirmation UI while a tool waits for the user's yes/no
+  const emitPendingConfirmation = (turnId?: string) => {
+    const pending = agent.getPendingToolCall();
+    if (pending?.awaiting !== 'confirmation') {
+      return;
+    }
 
-  // Send connection confirmation
-  socket.emit('connected', {
-    message: 'Connected to Pixel - Your AI Companion',
-    agentInfo: voiceAgent.getInfo(),
-  });
+    socket.emit('tool-confirmation', {
+      turnId,
+      toolName: pending.name,
+      arguments: pending.arguments,
+      question: pending.question,
+    });
+  };
 
-  // Map to track pending tool executions
-  const pendingToolExecutions = new Map<string, {
-    resolve: (result: any) => void;
-    reject: (error: any) => void;
-  }>();
+  // Send connection confirmation once a resumed session has been restored
+  const sendConnected = async () => {
+    try {
+      await session.ready;
+      const tools = await agent.getTools();
+      socket.emit('connected', {
+        message: 'Connected to Pixel - Your AI Companion',
+        sessionId,
+        sessionToken,
+        userId,
+        userToken,
+        persona: toPersonaInfo(agent.getPersona()),
+        personas: personaRegistry.list().map(toPersonaInfo),
+        tools: tools.map(tool => tool.function.name),
+        agentInfo: agent.getInfo(),
+      });
+      emitPendingConfirmation();
 
-  // Setup frontend tool emitter for this socket
-  voiceAgent.setFrontendToolEmitter(async (toolName: string, parameters: Record<string, any>) => {
+      // Reminders that fired while the user was away
+      await reminderStore.deliverPending(userId);
+    } catch (error) {
+      console.error('[SERVER] Error setting up session', sessionId, ':', error);
+      socket.emit('agent-error', {
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+  sendConnected();
+
+  // Setup frontend tool emitter for this session
+  // The registry aborts the signal on the tool's timeout or when the turn is
+  // cancelled; a disconnect resolves pending executions as unavailable
+  agent.setFrontendToolEmitter(async (toolName: string, parameters: Record<string, any>, signal: AbortSignal) => {
     console.log('[SERVER] Requesting frontend tool execution:', toolName, parameters);
 
-    return new Promise((resolve, reject) => {
-      const executionId = `${socket.id}-${Date.now()}`;
+    return new Promise((resolve) => {
+      const executionId = `${socket.id}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+      // Stop waiting for the client once the registry gives up
+      const onAbort = () => {
+        if (pendingToolExecutions.delete(executionId)) {
+          resolve(toolError('timeout', `${toolName} was abandoned`));
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
 
-      // Store promise resolvers
-      pendingToolExecutions.set(executionId, { resolve, reject });
+      // Store promise resolver
+      pendingToolExecutions.set(executionId, {
+        toolName,
+        resolve: (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+      });
 
       // Emit tool execution request to frontend
       socket.emit('execute-tool', {
@@ -97,14 +558,6 @@ io.on('connection', (socket) => {
         toolName,
         parameters,
       });
-
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        if (pendingToolExecutions.has(executionId)) {
-          pendingToolExecutions.delete(executionId);
-          reject(new Error('Tool execution timeout'));
-        }
-      }, 10000);
     });
   });
 
@@ -122,38 +575,130 @@ io.on('connection', (socket) => {
           result: data.result,
         });
       } else {
-        pending.reject(new Error(data.error || 'Tool execution failed'));
+        pending.resolve(toolError('rejected', data.error || 'The app could not run the tool'));
       }
     }
   });
 
   /**
    * Handle user message
+   * A new message while a turn is still running interrupts that turn (barge-in)
    */
-  socket.on('user-message', async (data: { message: string }) => {
+  socket.on('user-message', async (data: { message: string; stream?: boolean; turnId?: string; confirm?: boolean }) => {
+    const { message, stream } = data;
+    const confirmation = typeof data.confirm === 'boolean' ? data.confirm : undefined;
+    const turnId = data.turnId || `${sessionId}-${Date.now()}`;
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    // Cancel the previous turn and wait for it to settle so history stays in order
+    const previousTurn = session.activeTurn;
+    if (previousTurn) {
+      console.log('[SERVER] Barge-in: cancelling turn', previousTurn.turnId);
+      previousTurn.controller.abort();
+    }
+
+    let finishTurn!: () => void;
+    const turn = { turnId, controller, done: new Promise<void>(resolve => { finishTurn = resolve; }) };
+    session.activeTurn = turn;
+
     try {
-      const { message } = data;
-      console.log('[SERVER] Received message from', socket.id, ':', message);
+      await previousTurn?.done;
+      await session.ready;
+      signal.throwIfAborted();
+
+      console.log('[SERVER] Received message from', sessionId, ':', message, '- turn:', turnId);
+      sessionManager.touch(session);
 
       // Emit processing status
-      socket.emit('agent-processing', { status: 'Processing your message...' });
+      socket.emit('agent-processing', { turnId, status: 'Processing your message...' });
+
+      if (stream) {
+        // Stream the response: text chunks as they arrive, speech per complete sentence
+        const streamResult = await pipeline.processStream(message, {
+          onStart: () => {
+            socket.emit('agent-response-start', { turnId, timestamp: new Date().toISOString() });
+          },
+          onChunk: (text) => {
+            socket.emit('agent-response-chunk', { turnId, text });
+          },
+          onSentence: (sentence) => {
+            socket.emit('agent-response-sentence', { turnId, ...sentence });
+          },
+        }, { signal, confirmation });
+
+        socket.emit('agent-response-end', { turnId, ...streamResult });
+        emitPendingConfirmation(turnId);
+
+        sessionManager.touch(session);
+        console.log('[SERVER] Streamed response to', sessionId, '- Processing time:', streamResult.processingTimeMs, 'ms');
+        return;
+      }
 
       // Process message through complete pipeline (agent + TTS)
-      const pipelineResponse = await responsePipeline.process(message);
+      const pipelineResponse = await pipeline.process(message, { signal, confirmation });
 
       // Emit agent response with TTS data
       socket.emit('agent-response', {
+        turnId,
         displayText: pipelineResponse.displayText,  // Text with emojis for display
         speechText: pipelineResponse.speechText,    // Text without emojis for TTS
         tts: pipelineResponse.tts,
         timestamp: pipelineResponse.timestamp,
         processingTimeMs: pipelineResponse.processingTimeMs,
       });
+      emitPendingConfirmation(turnId);
 
-      console.log('[SERVER] Sent response to', socket.id, '- Processing time:', pipelineResponse.processingTimeMs, 'ms');
+      sessionManager.touch(session);
+      console.log('[SERVER] Sent response to', sessionId, '- Processing time:', pipelineResponse.processingTimeMs, 'ms');
     } catch (error) {
+      if (signal.aborted) {
+        console.log('[SERVER] Turn cancelled:', turnId);
+        socket.emit('agent-response-cancelled', { turnId, timestamp: new Date().toISOString() });
+        return;
+      }
+
       console.error('[SERVER] Error processing message:', error);
 
+      socket.emit('agent-error', {
+        turnId,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      if (session.activeTurn === turn) {
+        session.activeTurn = undefined;
+      }
+      // The next turn waits on this one, so it must finish even if saving fails
+      try {
+        await sessionManager.save(session);
+      } finally {
+        finishTurn();
+      }
+    }
+  });
+
+  /**
+   * Handle turn cancellation (user started talking or pressed stop)
+   */
+  socket.on('cancel-turn', (data: { turnId?: string } = {}) => {
+    const activeTurn = session.activeTurn;
+    if (!activeTurn || (data.turnId && data.turnId !== activeTurn.turnId)) {
+      return;
+    }
+
+    console.log('[SERVER] Cancel requested for turn', activeTurn.turnId);
+    activeTurn.controller.abort();
+  });
+
+  /**
+   * Handle persona switch
+   */
+  socket.on('set-persona', async (data: { personaId: string }) => {
+    try {
+      const persona = await sessionManager.setPersona(session, data?.personaId);
+      socket.emit('persona-changed', { persona: toPersonaInfo(persona), greeting: await pipeline.greet() });
+    } catch (error) {
       socket.emit('agent-error', {
         error: error instanceof Error ? error.message : 'Unknown error occurred',
         timestamp: new Date().toISOString(),
@@ -164,27 +709,45 @@ io.on('connection', (socket) => {
   /**
    * Handle conversation history request
    */
-  socket.on('get-history', () => {
-    const history = voiceAgent.getHistory();
-    socket.emit('conversation-history', { history });
+  socket.on('get-history', async () => {
+    try {
+      await session.ready;
+      const history = agent.getHistory();
+      socket.emit('conversation-history', { sessionId, history });
+    } catch (error) {
+      socket.emit('agent-error', {
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString(),
+      });
+    }
   });
 
   /**
    * Handle clear history request
    */
-  socket.on('clear-history', () => {
-    voiceAgent.clearHistory();
-    socket.emit('history-cleared', {
-      message: 'Conversation history cleared',
-      timestamp: new Date().toISOString(),
-    });
+  socket.on('clear-history', async () => {
+    try {
+      await session.ready;
+      agent.clearHistory();
+      await sessionManager.save(session);
+      socket.emit('history-cleared', {
+        message: 'Conversation history cleared',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      socket.emit('agent-error', {
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString(),
+      });
+    }
   });
 
   /**
    * Handle disconnect
    */
   socket.on('disconnect', () => {
-    console.log('[SERVER] Client disconnected:', socket.id);
+    console.log('[SERVER] Client disconnected:', socket.id, '- session:', sessionId);
+    sessionManager.detach(sessionId, socket.id);
   });
 });
 
@@ -195,19 +758,45 @@ async function startServer() {
   try {
     console.log('\n🚀 Starting Voice AI Agent Server...\n');
 
+    // Discover tool plugins (fails fast on an invalid plugin)
+    await toolPlugins.load();
+
+    // Connect to the MCP servers; one that is down keeps retrying in the background
+    await mcpServers.start();
+    mcpServers.watch();
+
     // Test agent connection
     console.log('Testing agent connection...');
-    const isConnected = await voiceAgent.testConnection();
+    const isConnected = await sessionManager.testConnection();
 
     if (!isConnected) {
       console.error('❌ Failed to connect to AI model');
       console.error('   Make sure Ollama is running: ollama serve');
-      console.error(`   Model loaded: ollama run ${envConfig.ollamaModel}`);
+      for (const name of AGENT_NAMES) {
+        const config = getModelConfig(name);
+        console.error(`   ${name} model pulled: ollama pull ${config.model} (${config.baseUrl})`);
+      }
       process.exit(1);
     }
 
     console.log('✅ Agent connection successful\n');
 
+    // Bring the document index up to date in the background; searches use the old index meanwhile
+    knowledgeBase.reindex().catch(error => {
+      console.error('[SERVER] Knowledge base indexing failed (is the embedding model pulled?):', error instanceof Error ? error.message : error);
+    });
+
+    // Synthesize every persona's greeting (spoken on a persona switch) in the background
+    if (ttsConfig.cachePrewarm) {
+      const phrases: PrewarmPhrase[] = personaRegistry.list().map(persona => ({ text: persona.greeting, voice: persona.voice }));
+      ttsService.prewarm(phrases).catch(error => {
+        console.error('[SERVER] TTS cache pre-warming failed:', error instanceof Error ? error.message : error);
+      });
+    }
+
+    // Fire timers and reminders (including those that came due while the server was down)
+    reminderStore.start(deliverReminder);
+
     // Start HTTP server
     httpServer.listen(envConfig.port, () => {
       console.log('═══════════════════════════════════════════════════════');
@@ -217,8 +806,11 @@ async function startServer() {
       console.log(`   Health Check: http://localhost:${envConfig.port}/health`);
       console.log(`   WebSocket:    ws://localhost:${envConfig.port}`);
       console.log('');
-      console.log('   Model Provider:', envConfig.modelProvider.toUpperCase());
-      console.log('   Model:', envConfig.ollamaModel);
+      console.log('   Agent Config:', agentConfig.source);
+      for (const name of AGENT_NAMES) {
+        const config = getModelConfig(name);
+        console.log(`   ${name} model:`.padEnd(22), `${config.model} (${config.provider} @ ${config.baseUrl})`);
+      }
       console.log('═══════════════════════════════════════════════════════');
       console.log('\n✅ Ready for connections!\n');
     });
@@ -231,6 +823,9 @@ async function startServer() {
 // Handle shutdown gracefully
 process.on('SIGTERM', () => {
   console.log('\n⏳ Shutting down server...');
+  reminderStore.stop();
+  mcpServers.stop().catch(error => console.error('[SERVER] Failed to stop MCP servers:', error));
+  sessionManager.shutdown();
   httpServer.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -239,6 +834,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('\n⏳ Shutting down server...');
+  reminderStore.stop();
+  mcpServers.stop().catch(error => console.error('[SERVER] Failed to stop MCP servers:', error));
+  sessionManager.shutdown();
   httpServer.close(() => {
     console.log('✅ Server closed');
     process.exit(0);
@@ -0,0 +1,243 @@
+/**
+ * Tool Argument Validator
+ * Checks the arguments a router produced against the tool's JSON schema and
+ * repairs what can be repaired safely (a number sent as a string, an enum
+ * value in the wrong case, a stray property)
+ *
+ * Supports the subset of JSON Schema used by tool definitions: type, enum,
+ * required, properties, items, minimum/maximum and minLength/maxLength
+ */
+
+import type { Tool } from './definitions.js';
+
+export type ToolParameters = Tool['function']['parameters'];
+
+/**
+ * Outcome of validating one tool call's arguments
+ */
+export interface ArgumentValidation {
+  value: Record<string, any>;  // Arguments after coercion, unknown properties removed
+  errors: string[];            // Empty when the arguments are valid
+  missing: string[];           // Required top-level parameters that were not given (also in errors)
+  repairs: string[];           // Coercions that were applied
+}
+
+const NUMERIC_STRING = /^\s*-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+/**
+ * Validate and coerce tool arguments against the tool's parameter schema
+ */
+export function validateArguments(schema: ToolParameters, args: Record<string, any>): ArgumentValidation {
+  const result: ArgumentValidation = { value: {}, errors: [], missing: [], repairs: [] };
+  result.value = checkObject(schema, args, '', result);
+  return result;
+}
+
+/**
+ * Check an object against a schema with properties and required fields
+ */
+function checkObject(schema: any, input: Record<string, any>, path: string, result: ArgumentValidation): Record<string, any> {
+  const properties: Record<string, any> = schema.properties || {};
+  const required: string[] = schema.required || [];
+  const output: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (!(key in properties)) {
+      if (schema.additionalProperties === true) {
+        output[key] = value;
+      } else {
+        result.repairs.push(`removed unknown parameter "${keyPath}"`);
+      }
+      continue;
+    }
+
+    // Small models send null for "not provided"
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    const checked = checkValue(properties[key], value, keyPath, result);
+    if (checked !== undefined) {
+      output[key] = checked;
+    }
+  }
+
+  // Present but invalid values have already been reported
+  for (const key of required) {
+    if (input[key] === null || input[key] === undefined) {
+      result.errors.push(`missing required parameter "${path ? `${path}.${key}` : key}"`);
+      if (!path) {
+        result.missing.push(key);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Check a single value, returning the (possibly coerced) value or undefined
+ * after recording an error
+ */
+function checkValue(schema: any, value: any, path: string, result: ArgumentValidation): any {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  const types: string[] | undefined = schema.type === undefined
+    ? undefined
+    : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  let checked = value;
+  if (types && !types.some(type => matchesType(type, value))) {
+    const coerced = coerce(types, value);
+    if (coerced === undefined) {
+      result.errors.push(`"${path}" must be ${describeTypes(types)}, got ${describeValue(value)}`);
+      return undefined;
+    }
+    result.repairs.push(`converted "${path}" from ${describeValue(value)} to ${types.find(type => matchesType(type, coerced))}`);
+    checked = coerced;
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return checkEnum(schema.enum, checked, path, result);
+  }
+
+  if (typeof checked === 'number') {
+    if (typeof schema.minimum === 'number' && checked < schema.minimum) {
+      result.errors.push(`"${path}" must be at least ${schema.minimum}, got ${checked}`);
+      return undefined;
+    }
+    if (typeof schema.maximum === 'number' && checked > schema.maximum) {
+      result.errors.push(`"${path}" must be at most ${schema.maximum}, got ${checked}`);
+      return undefined;
+    }
+  }
+
+  if (typeof checked === 'string') {
+    if (typeof schema.minLength === 'number' && checked.length < schema.minLength) {
+      result.errors.push(`"${path}" must be at least ${schema.minLength} characters`);
+      return undefined;
+    }
+    if (typeof schema.maxLength === 'number' && checked.length > schema.maxLength) {
+      result.errors.push(`"${path}" must be at most ${schema.maxLength} characters`);
+      return undefined;
+    }
+  }
+
+  if (Array.isArray(checked) && schema.items) {
+    const items = checked.map((item, index) => checkValue(schema.items, item, `${path}[${index}]`, result));
+    return items.some(item => item === undefined) ? undefined : items;
+  }
+
+  if (isPlainObject(checked) && schema.properties) {
+    return checkObject(schema, checked, path, result);
+  }
+
+  return checked;
+}
+
+/**
+ * Match a value against an enum, accepting strings in a different case
+ */
+function checkEnum(allowed: any[], value: any, path: string, result: ArgumentValidation): any {
+  if (allowed.includes(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const match = allowed.find(option => typeof option === 'string' && option.toLowerCase() === value.trim().toLowerCase());
+    if (match !== undefined) {
+      result.repairs.push(`matched "${path}" value "${value}" to "${match}"`);
+      return match;
+    }
+  }
+
+  result.errors.push(`"${path}" must be one of ${allowed.map(option => JSON.stringify(option)).join(', ')}, got ${describeValue(value)}`);
+  return undefined;
+}
+
+/**
+ * Convert a value to one of the expected types, when that cannot change its meaning
+ */
+function coerce(types: string[], value: any): any {
+  for (const type of types) {
+    switch (type) {
+      case 'number':
+      case 'integer':
+        if (typeof value === 'string' && NUMERIC_STRING.test(value)) {
+          const number = Number(value);
+          if (type === 'number' || Number.isInteger(number)) {
+            return number;
+          }
+        }
+        break;
+
+      case 'boolean':
+        if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+          return value.trim().toLowerCase() === 'true';
+        }
+        break;
+
+      case 'string':
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          return String(value);
+        }
+        break;
+
+      case 'array':
+        if (!Array.isArray(value) && !isPlainObject(value)) {
+          return [value];
+        }
+        break;
+
+      case 'object':
+        if (typeof value === 'string') {
+          try {
+            const parsed = JSON.parse(value);
+            if (isPlainObject(parsed)) {
+              return parsed;
+            }
+          } catch {
+            // Not JSON - leave it to the error
+          }
+        }
+        break;
+    }
+  }
+
+  return undefined;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeTypes(types: string[]): string {
+  return types.map(type => (type === 'integer' || type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`)).join(' or ');
+}
+
+function describeValue(value: any): string {
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -1,8 +1,11 @@
 /**
  * Tool Definitions for Function Calling
- * Defines available tools that the AI agent can use
+ * Types for tool schemas and the plugin format used to add tools
+ * (the tools themselves live in ./plugins)
  */
 
+import type { ToolPolicy } from '../config/agents.js';
+
 export interface Tool {
   type: 'function';
   function: {
@@ -22,30 +25,61 @@ export interface ToolCall {
 }
 
 /**
- * changeBackgroundColor tool
- * Frontend-controlled tool that changes the UI background color
+ * Why a tool call failed
+ * timeout: no result in time, rejected: the client, the user or a policy
+ * refused it, unavailable: the tool or the client isn't there, failed: the
+ * tool itself went wrong
  */
-export const changeBackgroundColorTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'changeBackgroundColor',
-    description: 'Changes the background color of the user interface to match what the user is currently requesting. IMPORTANT: Extract the color from the user\'s LATEST message, not from previous messages.',
-    parameters: {
-      type: 'object',
-      properties: {
-        color: {
-          type: 'string',
-          description: 'The color name from the user\'s CURRENT request. Examples: if user says "I want blue", use "blue". If user says "change to red", use "red". If user says "make it green", use "green". ALWAYS use the color from the latest user message.',
-        },
-      },
-      required: ['color'],
-    },
-  },
-};
+export type ToolErrorCode = 'timeout' | 'rejected' | 'unavailable' | 'failed';
+
+export interface ToolExecutionResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+  errorCode?: ToolErrorCode;  // Set on failures
+}
 
 /**
- * All available tools
+ * Where a tool runs
+ * backend: the handler does the work on the server
+ * frontend: the call is forwarded to the connected client
  */
-export const availableTools: Tool[] = [
-  changeBackgroundColorTool,
-];
+export type ToolLocation = 'backend' | 'frontend';
+
+/**
+ * Frontend tool a client advertises when it connects
+ */
+export interface ClientToolCapability {
+  name: string;
+  version: number;
+}
+
+/**
+ * Context passed to a tool handler for one call
+ */
+export interface ToolContext {
+  userId: string;       // Owner of the session's long-term memory
+  signal: AbortSignal;  // Aborted when the call times out or the turn is cancelled
+  runOnFrontend: (parameters: Record<string, any>) => Promise<ToolExecutionResult>;  // Forward the call to the client
+}
+
+export type ToolHandler = (parameters: Record<string, any>, context: ToolContext) => Promise<ToolExecutionResult>;
+
+/**
+ * Tool plugin
+ * One module in ./plugins default-exports one of these. Backend tools need a
+ * handler; frontend tools may use one to prepare the parameters before
+ * calling context.runOnFrontend, otherwise they are forwarded as they are.
+ */
+export interface ToolPlugin {
+  definition: Tool;
+  runsOn: ToolLocation;
+  version?: number;    // Frontend tools: handler version the client must advertise (default 1)
+  timeoutMs?: number;  // How long the call may take, including the client round trip (default 10 s)
+  handler?: ToolHandler;
+  followUps?: Record<string, string>;  // Spoken question per required parameter, asked when the user leaves it out
+  policy?: ToolPolicy;                 // Default 'auto'; agents.config.json toolPolicies override it
+  confirmation?: (parameters: Record<string, any>) => string;  // Spoken yes/no question for 'confirm'
+  summarize?: (execution: ToolExecutionResult, parameters: Record<string, any>) => string;  // One line for the conversation model
+  sources?: (execution: ToolExecutionResult) => string[];  // Documents a result came from; the reply must name them
+}
@@ -0,0 +1,571 @@
+/**
+ * MCP Servers
+ * Connects to the Model Context Protocol servers listed in agents.config.json
+ * (over stdio or streamable HTTP) and serves their tools as tool plugins, so
+ * every session's ToolRegistry offers them next to the built-in ones
+ * A server that dies is reconnected in the background; its tools are only
+ * offered while it is connected. Servers are only ever started from the
+ * config file, which is watched so that adding one there needs no restart.
+ */
+
+import fs from 'fs';
+import { isDeepStrictEqual } from 'util';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { McpError, ToolListChangedNotificationSchema, type CallToolResult, type Tool as McpTool } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolExecutionResult, ToolPlugin } from './definitions.js';
+import { toolPlugins } from './plugin-loader.js';
+import { agentConfig, loadAgentConfig, type McpServerConfig } from '../config/agents.js';
+
+export type McpServerStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * What the status endpoint shows about a server
+ */
+export interface McpServerInfo {
+  name: string;
+  type: McpServerConfig['type'];
+  status: McpServerStatus;
+  server?: string;       // Name and version the server reported
+  tools: string[];       // Tool names as offered to the router
+  skipped: string[];     // Tools left out because their name was taken
+  connectedAt?: string;
+  error?: string;        // Why the last connection failed or closed
+  nextRetryAt?: string;
+}
+
+/**
+ * One configured server and its current connection
+ */
+interface McpServerState {
+  name: string;
+  config: McpServerConfig;
+  status: McpServerStatus;
+  client?: Client;                      // Only set while connected
+  tools: Map<string, ToolPlugin>;       // By tool name as offered to the router
+  knownTools: Set<string>;              // Names from the last listing, kept while disconnected
+  skipped: string[];
+  serverVersion?: string;
+  connectedAt?: string;
+  error?: string;
+  retries: number;
+  retryTimer?: NodeJS.Timeout;
+  nextRetryAt?: string;
+  removed: boolean;
+}
+
+const CLIENT_INFO = { name: 'pixel-voice-agent', version: '1.0.0' };
+const CONNECT_TIMEOUT_MS = 15000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+const MAX_DESCRIPTION_LENGTH = 300;  // Long descriptions crowd the router's small context
+const MAX_RESULT_LENGTH = 2000;
+const CONFIG_POLL_MS = 2000;
+
+/**
+ * McpServerManager class
+ * Owns the connections; the ToolRegistry asks it for the tools of the
+ * servers that are up
+ */
+export class McpServerManager {
+  private servers = new Map<string, McpServerState>();
+  private stopped = false;
+  private watchedPath?: string;
+  private reloading: Promise<void> = Promise.resolve();  // Reloads run one at a time
+
+  /**
+   * Connect to every configured server
+   * Resolves once each has connected or failed its first attempt; failed
+   * servers keep retrying in the background
+   */
+  async start(configs: Record<string, McpServerConfig> = agentConfig.mcpServers): Promise<void> {
+    this.stopped = false;
+    await Promise.all(Object.entries(configs).map(([name, config]) => this.add(name, config)));
+  }
+
+  /**
+   * Apply edits to the mcpServers section of agents.config.json as they are
+   * saved: new servers connect, removed ones disconnect and changed ones
+   * reconnect. An invalid edit is logged and ignored; other sections of the
+   * file still need a restart
+   */
+  watch(configPath: string = agentConfig.source): void {
+    this.watchedPath = configPath;
+    // Polled rather than fs.watch, which loses track of files editors replace on save
+    fs.watchFile(configPath, { interval: CONFIG_POLL_MS }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.reload();
+      }
+    }).unref();
+  }
+
+  /**
+   * Bring the servers in line with the config file
+   */
+  reload(): Promise<void> {
+    this.reloading = this.reloading.then(() => this.applyConfig()).catch((error) => {
+      console.error('[MCP] Failed to apply config changes:', error);
+    });
+    return this.reloading;
+  }
+
+  private async applyConfig(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    let configs: Record<string, McpServerConfig>;
+    try {
+      configs = loadAgentConfig().mcpServers;
+    } catch (error) {
+      console.error('[MCP] Ignoring config change:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    // A changed server is removed and added again
+    const removed = [...this.servers.values()]
+      .filter(state => !isDeepStrictEqual(state.config, configs[state.name]))
+      .map(state => state.name);
+    const added = Object.entries(configs)
+      .filter(([name]) => !this.servers.has(name) || removed.includes(name));
+    if (removed.length === 0 && added.length === 0) {
+      return;
+    }
+
+    console.log('[MCP] Config changed - removing:', removed.join(', ') || 'none', '- adding:', added.map(([name]) => name).join(', ') || 'none');
+    await Promise.all(removed.map(name => this.remove(name)));
+    await Promise.all(added.map(([name, config]) => this.add(name, config)));
+  }
+
+  /**
+   * Add a server and connect to it
+   * Its tools are offered from the next turn on
+   */
+  private async add(name: string, config: McpServerConfig): Promise<McpServerInfo> {
+    if (this.servers.has(name)) {
+      throw new Error(`MCP server "${name}" already exists`);
+    }
+
+    const state: McpServerState = {
+      name,
+      config,
+      status: 'connecting',
+      tools: new Map(),
+      knownTools: new Set(),
+      skipped: [],
+      retries: 0,
+      removed: false,
+    };
+    this.servers.set(name, state);
+
+    await this.connect(state);
+    return this.describe(state);
+  }
+
+  /**
+   * Disconnect from a server and forget it
+   */
+  private async remove(name: string): Promise<boolean> {
+    const state = this.servers.get(name);
+    if (!state) {
+      return false;
+    }
+
+    state.removed = true;
+    this.servers.delete(name);
+    await this.disconnect(state);
+    console.log('[MCP] Removed server', name);
+    return true;
+  }
+
+  /**
+   * Close every connection (stdio servers are stopped)
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.watchedPath) {
+      fs.unwatchFile(this.watchedPath);
+    }
+    await Promise.all([...this.servers.values()].map(state => this.disconnect(state)));
+  }
+
+  /**
+   * Get a tool of a connected server by the name offered to the router
+   */
+  get(name: string): ToolPlugin | undefined {
+    for (const state of this.servers.values()) {
+      const plugin = state.tools.get(name);
+      if (plugin) {
+        return plugin;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Tools of the connected servers
+   */
+  list(): ToolPlugin[] {
+    return [...this.servers.values()].flatMap(state => [...state.tools.values()]);
+  }
+
+  /**
+   * Name of the disconnected server a tool belongs to, to explain why it is
+   * missing (undefined for tools no server had)
+   */
+  findDisconnectedServer(toolName: string): string | undefined {
+    for (const state of this.servers.values()) {
+      if (!state.client && state.knownTools.has(toolName)) {
+        return state.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Status of every server, for the REST API
+   */
+  getStatus(): McpServerInfo[] {
+    return [...this.servers.values()].map(state => this.describe(state));
+  }
+
+  /**
+   * Start the transport, handshake and list the tools
+   * A failure schedules a retry
+   */
+  private async connect(state: McpServerState): Promise<void> {
+    state.status = 'connecting';
+    state.nextRetryAt = undefined;
+
+    const client = new Client(CLIENT_INFO);
+    const transport = createTransport(state);
+
+    client.onclose = () => this.handleClose(state, client);
+    client.onerror = (error) => {
+      console.error('[MCP]', state.name, 'error:', error.message);
+    };
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      if (state.client === client) {
+        await this.refreshTools(state, client).catch(error => {
+          console.error('[MCP]', state.name, 'failed to refresh its tools:', describeError(error));
+        });
+      }
+    });
+
+    try {
+      await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+      await this.refreshTools(state, client);
+    } catch (error) {
+      state.status = 'disconnected';
+      state.error = describeError(error);
+      state.tools.clear();
+      console.error('[MCP] Could not connect to', state.name, ':', state.error);
+
+      client.onclose = undefined;
+      await client.close().catch(() => {});
+      this.scheduleReconnect(state);
+      return;
+    }
+
+    // The server may have been removed, or the app stopped, while connecting
+    if (state.removed || this.stopped) {
+      client.onclose = undefined;
+      state.tools.clear();
+      await client.close().catch(() => {});
+      return;
+    }
+
+    const version = client.getServerVersion();
+    state.client = client;
+    state.status = 'connected';
+    state.serverVersion = version ? `${version.name} ${version.version}` : undefined;
+    state.connectedAt = new Date().toISOString();
+    state.error = undefined;
+    state.retries = 0;
+    console.log('[MCP] Connected to', state.name, `(${state.serverVersion ?? state.config.type})`, '-', state.tools.size, 'tool(s):', [...state.tools.keys()].join(', '));
+  }
+
+  /**
+   * Close a server's connection without reconnecting
+   */
+  private async disconnect(state: McpServerState): Promise<void> {
+    clearTimeout(state.retryTimer);
+    state.retryTimer = undefined;
+    state.nextRetryAt = undefined;
+    state.tools.clear();
+
+    const client = state.client;
+    state.client = undefined;
+    state.status = 'disconnected';
+    if (client) {
+      client.onclose = undefined;
+      client.onerror = undefined;
+      await client.close().catch(error => {
+        console.error('[MCP] Failed to close', state.name, ':', describeError(error));
+      });
+    }
+  }
+
+  /**
+   * The connection closed on its own (the process exited, the session ended):
+   * stop offering the tools and reconnect
+   */
+  private handleClose(state: McpServerState, client: Client): void {
+    if (state.client !== client) {
+      return;
+    }
+
+    state.client = undefined;
+    state.status = 'disconnected';
+    state.error ??= 'Connection closed';
+    state.tools.clear();
+    console.warn('[MCP] Lost connection to', state.name, '- its tools are unavailable until it reconnects');
+
+    this.scheduleReconnect(state);
+  }
+
+  /**
+   * A call failed below the protocol (e.g. the HTTP server is down): close
+   * the connection so the tools are withdrawn and a reconnect starts
+   */
+  private handleTransportFailure(state: McpServerState, client: Client, error: string): void {
+    if (state.client !== client) {
+      return;
+    }
+
+    state.error = error;
+    client.close().catch(() => {});  // Triggers handleClose
+  }
+
+  /**
+   * Retry with exponential backoff (1 s doubling up to a minute)
+   */
+  private scheduleReconnect(state: McpServerState): void {
+    if (state.removed || this.stopped || state.retryTimer) {
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** state.retries, RECONNECT_MAX_MS);
+    state.retries++;
+    state.nextRetryAt = new Date(Date.now() + delay).toISOString();
+
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = undefined;
+      this.connect(state).catch(error => {
+        console.error('[MCP] Reconnect to', state.name, 'failed:', describeError(error));
+      });
+    }, delay);
+    state.retryTimer.unref();
+  }
+
+  /**
+   * List the server's tools and turn them into plugins
+   * Names already taken by a built-in plugin or another server are skipped
+   */
+  private async refreshTools(state: McpServerState, client: Client): Promise<void> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: CONNECT_TIMEOUT_MS });
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const plugins = new Map<string, ToolPlugin>();
+    const skipped: string[] = [];
+
+    for (const tool of tools) {
+      const name = toToolName(`${state.config.toolPrefix ?? ''}${tool.name}`);
+      const owner = this.findOwner(name);
+      if (toolPlugins.get(name) || (owner && owner !== state) || plugins.has(name)) {
+        skipped.push(name);
+        continue;
+      }
+      plugins.set(name, this.toPlugin(state, client, tool, name));
+    }
+
+    if (skipped.length > 0) {
+      console.warn('[MCP]', state.name, 'tool name(s) already taken, skipped:', skipped.join(', '),
+        '(set a toolPrefix for this server)');
+    }
+
+    state.tools = plugins;
+    state.knownTools = new Set(plugins.keys());
+    state.skipped = skipped;
+  }
+
+  /**
+   * The server currently offering a tool name
+   */
+  private findOwner(name: string): McpServerState | undefined {
+    return [...this.servers.values()].find(state => state.tools.has(name));
+  }
+
+  /**
+   * Wrap an MCP tool as a backend tool plugin whose handler calls the server
+   */
+  private toPlugin(state: McpServerState, client: Client, tool: McpTool, name: string): ToolPlugin {
+    const { $schema, ...schema } = tool.inputSchema ?? { type: 'object' };
+    const description = (tool.description || tool.annotations?.title || tool.title || tool.name).trim();
+
+    return {
+      definition: {
+        type: 'function',
+        function: {
+          name,
+          description: truncate(description, MAX_DESCRIPTION_LENGTH),
+          parameters: {
+            ...schema,
+            type: 'object',
+            properties: schema.properties ?? {},
+            ...(Array.isArray(schema.required) ? { required: schema.required } : {}),
+          },
+        },
+      },
+      runsOn: 'backend',
+      timeoutMs: state.config.timeoutMs,
+      // Tools that say they destroy data ask first (toolPolicies can still override)
+      policy: tool.annotations?.destructiveHint === true && tool.annotations.readOnlyHint !== true ? 'confirm' : undefined,
+      handler: async (parameters, context): Promise<ToolExecutionResult> => {
+        if (state.client !== client) {
+          return { success: false, error: `The ${state.name} server is disconnected`, errorCode: 'unavailable' };
+        }
+
+        try {
+          const result = await client.callTool(
+            { name: tool.name, arguments: parameters },
+            undefined,
+            { signal: context.signal, timeout: state.config.timeoutMs },
+          );
+
+          const text = describeContent(result.content);
+          if (result.isError) {
+            return { success: false, error: truncate(text || 'The tool reported an error', MAX_RESULT_LENGTH), errorCode: 'failed' };
+          }
+
+          return {
+            success: true,
+            result: {
+              message: truncate(text || (result.structuredContent ? JSON.stringify(result.structuredContent) : 'Done'), MAX_RESULT_LENGTH),
+              ...(result.structuredContent ? { data: result.structuredContent } : {}),
+            },
+          };
+        } catch (error) {
+          const message = describeError(error);
+
+          // Closed mid-call: the server died or restarted
+          if (state.client !== client) {
+            return { success: false, error: `The ${state.name} server went away during the call`, errorCode: 'unavailable' };
+          }
+
+          // Not a protocol error: the transport itself failed
+          if (!context.signal.aborted && !(error instanceof McpError)) {
+            this.handleTransportFailure(state, client, message);
+            return { success: false, error: `Could not reach the ${state.name} server: ${message}`, errorCode: 'unavailable' };
+          }
+
+          return { success: false, error: message, errorCode: 'failed' };
+        }
+      },
+    };
+  }
+
+  /**
+   * Status of one server
+   */
+  private describe(state: McpServerState): McpServerInfo {
+    return {
+      name: state.name,
+      type: state.config.type,
+      status: state.status,
+      server: state.serverVersion,
+      tools: [...state.tools.keys()],
+      skipped: state.skipped,
+      connectedAt: state.status === 'connected' ? state.connectedAt : undefined,
+      error: state.status === 'connected' ? undefined : state.error,
+      nextRetryAt: state.nextRetryAt,
+    };
+  }
+}
+
+/**
+ * Transport for a server's config
+ * stdio servers' stderr goes to the log, prefixed with the server name
+ */
+function createTransport(state: McpServerState): Transport {
+  const { config } = state;
+
+  if (config.type === 'http') {
+    return new StreamableHTTPClientTransport(new URL(config.url!), {
+      requestInit: config.headers ? { headers: config.headers } : undefined,
+    });
+  }
+
+  const transport = new StdioClientTransport({
+    command: config.command!,
+    args: config.args,
+    env: config.env,
+    cwd: config.cwd,
+    stderr: 'pipe',
+  });
+
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    for (const line of chunk.toString().split('\n')) {
+      if (line.trim()) {
+        console.log(`[MCP ${state.name}]`, line.trimEnd());
+      }
+    }
+  });
+
+  return transport;
+}
+
+/**
+ * Tool names the router accepts: letters, digits, "_" and "-"
+ */
+function toToolName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]+/g, '_');
+}
+
+/**
+ * Text of a tool result's content blocks (other media are only named)
+ */
+function describeContent(content: unknown): string {
+  if (!Array.isArray(content)) {
+    return '';
+  }
+
+  return (content as CallToolResult['content']).map((block) => {
+    switch (block.type) {
+      case 'text':
+        return block.text;
+      case 'resource':
+        return 'text' in block.resource ? block.resource.text : `[resource ${block.resource.uri}]`;
+      case 'resource_link':
+        return `[${block.name}: ${block.uri}]`;
+      default:
+        return `[${block.type} content]`;
+    }
+  }).filter(Boolean).join('\n').trim();
+}
+
+/**
+ * Shorten text to a length, marking the cut
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Message of a thrown value
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Export singleton instance
+ */
+export const mcpServers = new McpServerManager();
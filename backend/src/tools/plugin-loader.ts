@@ -0,0 +1,177 @@
+/**
+ * Tool Plugin Loader
+ * Discovers the tool plugins in ./plugins at startup
+ * Every module there default-exports a ToolPlugin; files starting with
+ * an underscore are skipped
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Tool, ToolPlugin } from './definitions.js';
+import { agentConfig, TOOL_POLICIES } from '../config/agents.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TOOL_LOCATIONS = ['backend', 'frontend'];
+
+/**
+ * ToolPluginLoader class
+ * Loads the plugins once and serves them to every session's ToolRegistry
+ */
+export class ToolPluginLoader {
+  private directory: string;
+  private plugins = new Map<string, ToolPlugin>();
+  private loading?: Promise<void>;
+
+  constructor(directory: string = path.join(__dirname, 'plugins')) {
+    this.directory = directory;
+  }
+
+  /**
+   * Discover and validate the plugins (only the first call does the work)
+   */
+  load(): Promise<void> {
+    this.loading ??= this.discover();
+    return this.loading;
+  }
+
+  /**
+   * Get a loaded plugin by tool name
+   */
+  get(name: string): ToolPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  /**
+   * List the loaded plugins
+   */
+  list(): ToolPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  /**
+   * Tool schemas of the loaded plugins, for the router
+   */
+  getDefinitions(): Tool[] {
+    return this.list().map(plugin => plugin.definition);
+  }
+
+  /**
+   * Import every plugin module in the directory
+   * Invalid or duplicate plugins stop the server with a list of what is wrong
+   */
+  private async discover(): Promise<void> {
+    const files = (await fs.promises.readdir(this.directory)).filter(isPluginFile).sort();
+    const errors: string[] = [];
+
+    for (const file of files) {
+      let plugin: ToolPlugin;
+      try {
+        const module = await import(pathToFileURL(path.join(this.directory, file)).href);
+        plugin = module.default;
+      } catch (error) {
+        errors.push(`${file}: failed to load (${error instanceof Error ? error.message : 'Unknown error'})`);
+        continue;
+      }
+
+      const problems = validatePlugin(plugin);
+      if (problems.length > 0) {
+        errors.push(...problems.map(problem => `${file}: ${problem}`));
+        continue;
+      }
+
+      const name = plugin.definition.function.name;
+      if (this.plugins.has(name)) {
+        errors.push(`${file}: tool "${name}" is already defined by another plugin`);
+        continue;
+      }
+
+      this.plugins.set(name, plugin);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid tool plugins (${this.directory}):\n  - ${errors.join('\n  - ')}`);
+    }
+
+    console.log('[TOOLS] Loaded', this.plugins.size, 'tool plugin(s):', [...this.plugins.keys()].join(', '));
+
+    // Policies for MCP tools can't be checked until their servers connect
+    const hasMcpServers = Object.keys(agentConfig.mcpServers).length > 0;
+    for (const name of Object.keys(agentConfig.toolPolicies)) {
+      if (!this.plugins.has(name) && !hasMcpServers) {
+        console.warn('[TOOLS] toolPolicies refers to an unknown tool:', name);
+      }
+    }
+  }
+}
+
+/**
+ * Plugin modules: .ts under tsx, .js once built (declaration files skipped)
+ */
+function isPluginFile(file: string): boolean {
+  if (file.startsWith('_') || file.endsWith('.d.ts')) {
+    return false;
+  }
+  return file.endsWith('.ts') || file.endsWith('.js');
+}
+
+/**
+ * Check the shape of a plugin's default export
+ */
+function validatePlugin(plugin: any): string[] {
+  if (!plugin || typeof plugin !== 'object') {
+    return ['must default-export a tool plugin object'];
+  }
+
+  const problems: string[] = [];
+  const fn = plugin.definition?.function;
+
+  if (plugin.definition?.type !== 'function' || typeof fn?.name !== 'string' || !fn.name) {
+    problems.push('definition must be a function tool with a name');
+  }
+  if (typeof fn?.description !== 'string' || !fn.description) {
+    problems.push('definition.function.description is required');
+  }
+  if (fn?.parameters?.type !== 'object' || typeof fn.parameters.properties !== 'object') {
+    problems.push('definition.function.parameters must be an object schema with properties');
+  }
+  if (!TOOL_LOCATIONS.includes(plugin.runsOn)) {
+    problems.push(`runsOn must be one of: ${TOOL_LOCATIONS.join(', ')}`);
+  }
+  if (plugin.runsOn === 'backend' && typeof plugin.handler !== 'function') {
+    problems.push('backend tools need a handler');
+  }
+  if (plugin.version !== undefined && !(Number.isInteger(plugin.version) && plugin.version > 0)) {
+    problems.push('version must be a positive integer');
+  }
+  if (plugin.timeoutMs !== undefined && !(Number.isInteger(plugin.timeoutMs) && plugin.timeoutMs > 0)) {
+    problems.push('timeoutMs must be a positive integer');
+  }
+  if (plugin.handler !== undefined && typeof plugin.handler !== 'function') {
+    problems.push('handler must be a function');
+  }
+  if (plugin.followUps !== undefined && (typeof plugin.followUps !== 'object' || Object.values(plugin.followUps).some(q => typeof q !== 'string'))) {
+    problems.push('followUps must map parameter names to questions');
+  }
+  if (plugin.policy !== undefined && !TOOL_POLICIES.includes(plugin.policy)) {
+    problems.push(`policy must be one of: ${TOOL_POLICIES.join(', ')}`);
+  }
+  if (plugin.confirmation !== undefined && typeof plugin.confirmation !== 'function') {
+    problems.push('confirmation must be a function');
+  }
+  if (plugin.summarize !== undefined && typeof plugin.summarize !== 'function') {
+    problems.push('summarize must be a function');
+  }
+  if (plugin.sources !== undefined && typeof plugin.sources !== 'function') {
+    problems.push('sources must be a function');
+  }
+
+  return problems;
+}
+
+/**
+ * Export singleton instance
+ */
+export const toolPlugins = new ToolPluginLoader();
@@ -0,0 +1,72 @@
+/**
+ * calculate tool
+ * Backend tool that evaluates arithmetic exactly, so the conversation model
+ * doesn't have to do the math itself
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { evaluateExpression, formatNumber } from '../../utils/expression-parser.js';
+
+const calculate: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'calculate',
+      description: 'Calculates the result of a math expression. Use for any arithmetic, percentages or square roots the user asks about, instead of working it out yourself.',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: {
+            type: 'string',
+            description: 'The math expression. Examples: "12 * (3 + 4)", "15% of 80", "sqrt(2)", "2^10".',
+          },
+        },
+        required: ['expression'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    expression: 'What would you like me to calculate?',
+  },
+
+  async handler(parameters) {
+    if (typeof parameters.expression !== 'string' || !parameters.expression.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: expression',
+      };
+    }
+
+    const expression = parameters.expression.trim();
+    try {
+      const value = evaluateExpression(expression);
+      return {
+        success: true,
+        result: {
+          expression,
+          value,
+          formatted: formatNumber(value),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Could not calculate "${expression}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `calculate failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { expression, formatted } = execution.result as { expression: string; formatted: string };
+    return `calculate: ${expression} = ${formatted} (exact result; use this number)`;
+  },
+};
+
+export default calculate;
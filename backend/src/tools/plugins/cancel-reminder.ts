@@ -0,0 +1,67 @@
+/**
+ * cancelReminder tool
+ * Backend tool that cancels a pending timer or reminder
+ * Accepts a reminder id or a description matched against the pending ones
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { reminderStore } from '../../memory/reminder-store.js';
+
+const cancelReminder: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'cancelReminder',
+      description: 'Cancels a running timer or an upcoming reminder. Use when the user asks to cancel or stop one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reminder: {
+            type: 'string',
+            description: 'Which timer or reminder, in the user\'s words. Examples: "pasta timer", "call mom", "the timer".',
+          },
+        },
+        required: ['reminder'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    reminder: 'Which timer or reminder should I cancel?',
+  },
+
+  async handler(parameters, context) {
+    if (typeof parameters.reminder !== 'string' || !parameters.reminder.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: reminder',
+      };
+    }
+
+    const description = parameters.reminder.trim();
+    const match = reminderStore.find(context.userId, description);
+    if (!match) {
+      return {
+        success: false,
+        error: `No timer or reminder matches "${description}"`,
+      };
+    }
+
+    await reminderStore.cancel(context.userId, match.id);
+    const name = match.kind === 'timer'
+      ? (match.message ? `${match.message} timer` : 'timer')
+      : `reminder "${match.message}"`;
+
+    return {
+      success: true,
+      result: {
+        reminderId: match.id,
+        message: `Cancelled the ${name}`,
+      },
+    };
+  },
+};
+
+export default cancelReminder;
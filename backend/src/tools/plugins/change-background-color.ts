@@ -0,0 +1,73 @@
+/**
+ * changeBackgroundColor tool
+ * Frontend-controlled tool that changes the UI background color
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+
+/**
+ * Common color names and their hex codes
+ */
+const COLOR_MAP: Record<string, string> = {
+  'red': '#FF0000',
+  'blue': '#0000FF',
+  'green': '#00FF00',
+  'yellow': '#FFFF00',
+  'orange': '#FFA500',
+  'purple': '#800080',
+  'pink': '#FFC0CB',
+  'cyan': '#00FFFF',
+  'black': '#000000',
+  'white': '#FFFFFF',
+  'gray': '#808080',
+  'grey': '#808080',
+  'dark': '#1a1a1a',
+  'light': '#f5f5f5',
+};
+
+/**
+ * Convert color names to hex codes
+ */
+function colorToHex(color: string): string {
+  // If already hex, return as-is
+  if (color.startsWith('#')) {
+    return color;
+  }
+
+  return COLOR_MAP[color.toLowerCase()] || color;
+}
+
+const changeBackgroundColor: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'changeBackgroundColor',
+      description: 'Changes the background color of the user interface to match what the user is currently requesting. IMPORTANT: Extract the color from the user\'s LATEST message, not from previous messages.',
+      parameters: {
+        type: 'object',
+        properties: {
+          color: {
+            type: 'string',
+            description: 'The color name from the user\'s CURRENT request. Examples: if user says "I want blue", use "blue". If user says "change to red", use "red". If user says "make it green", use "green". ALWAYS use the color from the latest user message.',
+          },
+        },
+        required: ['color'],
+      },
+    },
+  },
+
+  runsOn: 'frontend',
+
+  followUps: {
+    color: 'Which color would you like?',
+  },
+
+  async handler(parameters, context) {
+    const hexColor = colorToHex(String(parameters.color));
+    console.log('[TOOL] Delegating changeBackgroundColor to frontend:', hexColor);
+
+    return context.runOnFrontend({ color: hexColor });
+  },
+};
+
+export default changeBackgroundColor;
@@ -0,0 +1,82 @@
+/**
+ * convertUnits tool
+ * Backend tool that converts a value between units of length, weight,
+ * volume, temperature, speed, area, time and data size
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { convertUnits as convert } from '../../utils/unit-conversion.js';
+import { formatNumber } from '../../utils/expression-parser.js';
+
+const convertUnits: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'convertUnits',
+      description: 'Converts a value from one unit to another, e.g. miles to kilometers, pounds to kilograms, Fahrenheit to Celsius or cups to milliliters.',
+      parameters: {
+        type: 'object',
+        properties: {
+          value: {
+            type: 'number',
+            description: 'The amount to convert, e.g. 5',
+          },
+          from: {
+            type: 'string',
+            description: 'The unit to convert from, e.g. "miles", "lb", "fahrenheit"',
+          },
+          to: {
+            type: 'string',
+            description: 'The unit to convert to, e.g. "kilometers", "kg", "celsius"',
+          },
+        },
+        required: ['value', 'from', 'to'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    value: 'How much should I convert?',
+    from: 'Which unit are you converting from?',
+    to: 'Which unit should I convert it to?',
+  },
+
+  async handler(parameters) {
+    const value = Number(parameters.value);
+    if (typeof parameters.from !== 'string' || typeof parameters.to !== 'string' || !isFinite(value)) {
+      return {
+        success: false,
+        error: 'Missing required parameters: value, from and to',
+      };
+    }
+
+    try {
+      const conversion = convert(value, parameters.from, parameters.to);
+      return {
+        success: true,
+        result: {
+          ...conversion,
+          formatted: formatNumber(conversion.result, 6),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `convertUnits failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { value, from, to, formatted } = execution.result as { value: number; from: string; to: string; formatted: string };
+    return `convertUnits: ${formatNumber(value)} ${from} = ${formatted} ${to} (exact result; use this number)`;
+  },
+};
+
+export default convertUnits;
@@ -0,0 +1,70 @@
+/**
+ * forgetFact tool
+ * Backend tool that deletes a fact from long-term memory
+ * Accepts a fact id or a description matched against the stored facts
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { factStore } from '../../memory/fact-store.js';
+
+const forgetFact: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'forgetFact',
+      description: 'Deletes a fact about the user from long-term memory. Use only when the user asks you to forget something.',
+      parameters: {
+        type: 'object',
+        properties: {
+          fact: {
+            type: 'string',
+            description: 'What to forget, in the user\'s words. Example: if the user says "forget my address", use "address".',
+          },
+        },
+        required: ['fact'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    fact: 'What would you like me to forget?',
+  },
+
+  // Deleting memories can't be undone
+  policy: 'confirm',
+  confirmation: (parameters) => `Do you want me to forget "${parameters.fact}"?`,
+
+  async handler(parameters, context) {
+    if (typeof parameters.fact !== 'string' || !parameters.fact.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: fact',
+      };
+    }
+
+    const description = parameters.fact.trim();
+    const match = factStore.list(context.userId).find(fact => fact.id === description)
+      ?? factStore.search(context.userId, description, 1)[0];
+
+    if (!match) {
+      return {
+        success: false,
+        error: `No remembered fact matches "${description}"`,
+      };
+    }
+
+    await factStore.forget(context.userId, match.id);
+
+    return {
+      success: true,
+      result: {
+        factId: match.id,
+        message: `Forgot: "${match.content}"`,
+      },
+    };
+  },
+};
+
+export default forgetFact;
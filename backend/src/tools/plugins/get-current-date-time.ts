@@ -0,0 +1,69 @@
+/**
+ * getCurrentDateTime tool
+ * Backend tool that tells the current date and time, here or in another time zone
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { getLocalTimeZone, resolveTimeZone } from '../../utils/time-parsing.js';
+
+const getCurrentDateTime: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'getCurrentDateTime',
+      description: 'Gets the current date, time and day of the week. Use whenever the user asks what time or day it is, here or somewhere else.',
+      parameters: {
+        type: 'object',
+        properties: {
+          timezone: {
+            type: 'string',
+            description: 'Optional place or time zone, e.g. "Tokyo", "Europe/Paris", "PST" or "UTC+2". Leave empty for local time.',
+          },
+        },
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  async handler(parameters) {
+    const requested = typeof parameters.timezone === 'string' ? parameters.timezone.trim() : '';
+    const timeZone = requested ? resolveTimeZone(requested) : getLocalTimeZone();
+    if (!timeZone) {
+      return {
+        success: false,
+        error: `Unknown time zone "${requested}"`,
+      };
+    }
+
+    const now = new Date();
+    const format = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat('en-US', { timeZone, ...options }).format(now);
+    const utcOffset = format({ timeZoneName: 'longOffset' }).split(' ').pop()?.replace('GMT', 'UTC') || 'UTC';
+
+    return {
+      success: true,
+      result: {
+        timezone: timeZone,
+        requested: requested || undefined,
+        date: format({ weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+        time: format({ hour: 'numeric', minute: '2-digit' }),
+        utcOffset,
+        iso: now.toISOString(),
+      },
+    };
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `getCurrentDateTime failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { timezone, requested, date, time, utcOffset } = execution.result as {
+      timezone: string; requested?: string; date: string; time: string; utcOffset: string;
+    };
+    const place = requested ? ` in ${requested} (${timezone}, ${utcOffset})` : ` (local time, ${timezone})`;
+    return `getCurrentDateTime: it is ${time} on ${date}${place}`;
+  },
+};
+
+export default getCurrentDateTime;
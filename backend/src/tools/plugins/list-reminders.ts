@@ -0,0 +1,60 @@
+/**
+ * listReminders tool
+ * Backend tool that lists the user's pending timers and reminders
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { reminderStore } from '../../memory/reminder-store.js';
+import { formatDuration, formatDueTime } from '../../utils/time-parsing.js';
+
+const listReminders: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'listReminders',
+      description: 'Lists the user\'s running timers and upcoming reminders. Use when the user asks what timers or reminders they have, or how long a timer has left.',
+      parameters: {
+        type: 'object',
+        properties: {},
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  async handler(_parameters, context) {
+    const now = new Date();
+    const reminders = reminderStore.list(context.userId).map(reminder => {
+      const dueAt = new Date(reminder.dueAt);
+      return {
+        id: reminder.id,
+        kind: reminder.kind,
+        message: reminder.message,
+        dueAt: reminder.dueAt,
+        description: reminder.kind === 'timer'
+          ? `${reminder.message ? `${reminder.message} timer` : 'timer'} with ${formatDuration(dueAt.getTime() - now.getTime())} left`
+          : `"${reminder.message}" ${formatDueTime(dueAt, now)}`,
+      };
+    });
+
+    return {
+      success: true,
+      result: { reminders },
+    };
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `listReminders failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { reminders } = execution.result as { reminders: { description: string }[] };
+    if (reminders.length === 0) {
+      return 'listReminders: the user has no timers or reminders set';
+    }
+
+    return `listReminders found: ${reminders.map(reminder => reminder.description).join('; ')}`;
+  },
+};
+
+export default listReminders;
@@ -0,0 +1,58 @@
+/**
+ * recallFacts tool
+ * Backend tool that looks up facts stored in long-term memory
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { factStore } from '../../memory/fact-store.js';
+
+const recallFacts: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'recallFacts',
+      description: 'Looks up facts about the user saved in long-term memory. Use when the user asks what you remember about them or asks about something they told you before.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Keywords describing what to look up, e.g. "birthday" or "favorite food". Leave empty to list everything remembered.',
+          },
+        },
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  async handler(parameters, context) {
+    const query = typeof parameters.query === 'string' ? parameters.query.trim() : '';
+    const facts = query
+      ? factStore.search(context.userId, query, 10)
+      : factStore.list(context.userId).slice(-10);
+
+    return {
+      success: true,
+      result: {
+        query,
+        facts: facts.map(fact => fact.content),
+      },
+    };
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `recallFacts failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { query, facts } = execution.result as { query: string; facts: string[] };
+    if (facts.length === 0) {
+      return query ? `recallFacts found nothing remembered about "${query}"` : 'recallFacts: nothing is remembered about the user yet';
+    }
+
+    return `recallFacts found: ${facts.join(' ')}`;
+  },
+};
+
+export default recallFacts;
@@ -0,0 +1,54 @@
+/**
+ * rememberFact tool
+ * Backend tool that stores a fact about the user in long-term memory
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { factStore } from '../../memory/fact-store.js';
+
+const rememberFact: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'rememberFact',
+      description: 'Saves a fact about the user to long-term memory so it is remembered in future conversations. Use when the user shares something personal worth keeping (name, preferences, important dates) or explicitly asks you to remember something.',
+      parameters: {
+        type: 'object',
+        properties: {
+          fact: {
+            type: 'string',
+            description: 'The fact as a short standalone sentence about the user. Examples: "The user\'s name is Sam.", "The user is allergic to peanuts.", "The user\'s favorite color is teal."',
+          },
+        },
+        required: ['fact'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    fact: 'What would you like me to remember?',
+  },
+
+  async handler(parameters, context) {
+    if (typeof parameters.fact !== 'string' || !parameters.fact.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: fact',
+      };
+    }
+
+    const { fact, created } = await factStore.remember(context.userId, parameters.fact);
+
+    return {
+      success: true,
+      result: {
+        factId: fact.id,
+        message: created ? `Remembered: "${fact.content}"` : `Already remembered: "${fact.content}"`,
+      },
+    };
+  },
+};
+
+export default rememberFact;
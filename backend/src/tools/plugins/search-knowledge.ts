@@ -0,0 +1,86 @@
+/**
+ * searchKnowledge tool
+ * Backend tool that looks up passages in the team's documents (the knowledge
+ * base); the reply names the documents the answer came from
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { knowledgeBase, type KnowledgePassage } from '../../knowledge/knowledge-base.js';
+
+const searchKnowledge: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'searchKnowledge',
+      description: 'Searches the team\'s documents (guides, notes, policies). Use when the user asks about how something works in the team or project, or about anything the documents may cover.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'What to look for, as a short question or keywords. Example: "how to request vacation".',
+          },
+        },
+        required: ['query'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  // Embedding the query is a model call
+  timeoutMs: 20000,
+
+  followUps: {
+    query: 'What should I look up?',
+  },
+
+  async handler(parameters) {
+    if (typeof parameters.query !== 'string' || !parameters.query.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: query',
+      };
+    }
+
+    const query = parameters.query.trim();
+    const passages = await knowledgeBase.search(query);
+
+    return {
+      success: true,
+      result: {
+        query,
+        passages: passages.map(passage => ({
+          source: passage.source,
+          title: passage.title,
+          heading: passage.heading,
+          text: passage.text,
+          score: Math.round(passage.score * 1000) / 1000,
+        })),
+      },
+    };
+  },
+
+  summarize(execution) {
+    if (!execution.success) {
+      return `searchKnowledge failed: ${execution.error || 'Unknown error'}`;
+    }
+
+    const { query, passages } = execution.result as { query: string; passages: KnowledgePassage[] };
+    if (passages.length === 0) {
+      return `searchKnowledge found nothing about "${query}" in the documents. Say you couldn't find it; don't guess.`;
+    }
+
+    const quoted = passages
+      .map((passage, i) => `  [${i + 1}] From "${passage.title}"${passage.heading ? ` (${passage.heading})` : ''}: ${passage.text.replace(/\s+/g, ' ')}`)
+      .join('\n');
+    return `searchKnowledge found these passages for "${query}". Answer only from them and say which document the answer comes from, e.g. "According to ${passages[0].title}, ...":\n${quoted}`;
+  },
+
+  sources(execution) {
+    const passages = (execution.result?.passages ?? []) as KnowledgePassage[];
+    return passages.map(passage => passage.title);
+  },
+};
+
+export default searchKnowledge;
@@ -0,0 +1,70 @@
+/**
+ * setReminder tool
+ * Backend tool that schedules a reminder; Pixel says it when it is due, or
+ * as soon as the user reconnects if they were away
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { reminderStore } from '../../memory/reminder-store.js';
+import { formatDueTime, parseDueTime } from '../../utils/time-parsing.js';
+
+const setReminder: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'setReminder',
+      description: 'Schedules a reminder. You will remind the user at the given time. Use when the user asks to be reminded of something.',
+      parameters: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+            description: 'What to remind the user about, as a short phrase. Example: "call mom".',
+          },
+          time: {
+            type: 'string',
+            description: 'When, in the user\'s words. Examples: "in 20 minutes", "at 6pm", "tomorrow at 9am".',
+          },
+        },
+        required: ['message', 'time'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    message: 'What should I remind you about?',
+    time: 'When should I remind you?',
+  },
+
+  async handler(parameters, context) {
+    if (typeof parameters.message !== 'string' || !parameters.message.trim()) {
+      return {
+        success: false,
+        error: 'Missing required parameter: message',
+      };
+    }
+
+    const dueAt = typeof parameters.time === 'string' ? parseDueTime(parameters.time) : undefined;
+    if (!dueAt) {
+      return {
+        success: false,
+        error: `Could not understand the time "${parameters.time}"`,
+      };
+    }
+
+    const reminder = await reminderStore.add(context.userId, 'reminder', parameters.message, dueAt);
+
+    return {
+      success: true,
+      result: {
+        reminderId: reminder.id,
+        dueAt: reminder.dueAt,
+        message: `Reminder "${reminder.message}" set for ${formatDueTime(dueAt)}`,
+      },
+    };
+  },
+};
+
+export default setReminder;
@@ -0,0 +1,62 @@
+/**
+ * setTimer tool
+ * Backend tool that starts a countdown; Pixel announces it when it ends
+ */
+
+import type { ToolPlugin } from '../definitions.js';
+import { reminderStore } from '../../memory/reminder-store.js';
+import { formatDuration, parseDuration } from '../../utils/time-parsing.js';
+
+const setTimer: ToolPlugin = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'setTimer',
+      description: 'Starts a countdown timer. You will tell the user when it runs out. Use when the user asks for a timer.',
+      parameters: {
+        type: 'object',
+        properties: {
+          duration: {
+            type: 'string',
+            description: 'How long the timer runs, in the user\'s words. Examples: "5 minutes", "90 seconds", "1 hour 30 minutes".',
+          },
+          label: {
+            type: 'string',
+            description: 'Optional name for the timer, e.g. "pasta" or "laundry".',
+          },
+        },
+        required: ['duration'],
+      },
+    },
+  },
+
+  runsOn: 'backend',
+
+  followUps: {
+    duration: 'How long should the timer be?',
+  },
+
+  async handler(parameters, context) {
+    const duration = typeof parameters.duration === 'string' ? parseDuration(parameters.duration) : undefined;
+    if (!duration) {
+      return {
+        success: false,
+        error: `Could not understand the duration "${parameters.duration}"`,
+      };
+    }
+
+    const label = typeof parameters.label === 'string' ? parameters.label.trim() : '';
+    const timer = await reminderStore.add(context.userId, 'timer', label, new Date(Date.now() + duration));
+
+    return {
+      success: true,
+      result: {
+        reminderId: timer.id,
+        dueAt: timer.dueAt,
+        message: `Timer set for ${formatDuration(duration)}${label ? ` (${label})` : ''}`,
+      },
+    };
+  },
+};
+
+export default setTimer;
@@ -1,17 +1,48 @@
 /**
  * Tool Registry
- * Manages tool execution and frontend tool delegation
+ * Executes tool plugins for one session, delegating frontend tools to the
+ * connected client
+ * Frontend tools are only offered when the client advertised a handler for
+ * them, so headless clients get the backend tools alone. Tools of connected
+ * MCP servers are offered like backend plugins.
  */
 
-import type { ToolCall } from './definitions.js';
+import type {
+  ClientToolCapability,
+  Tool,
+  ToolCall,
+  ToolContext,
+  ToolErrorCode,
+  ToolExecutionResult,
+  ToolPlugin,
+} from './definitions.js';
+import { toolPlugins } from './plugin-loader.js';
+import { mcpServers } from './mcp-servers.js';
+import { validateArguments, type ArgumentValidation } from './argument-validator.js';
+import { agentConfig, type ToolPolicy } from '../config/agents.js';
+import { DEFAULT_USER_ID } from '../memory/fact-store.js';
 
-export interface ToolExecutionResult {
-  success: boolean;
-  result?: any;
-  error?: string;
-}
+export type { ToolExecutionResult } from './definitions.js';
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+/**
+ * Sends a tool call to the client and resolves with its result
+ * Must stop waiting (and forget the call) once the signal is aborted
+ */
+export type FrontendToolEmitter = (
+  toolName: string,
+  parameters: Record<string, any>,
+  signal: AbortSignal
+) => Promise<ToolExecutionResult>;
 
-export type FrontendToolEmitter = (toolName: string, parameters: Record<string, any>) => Promise<ToolExecutionResult>;
+/**
+ * Options for executing one tool call
+ */
+export interface ExecuteToolOptions {
+  confirmed?: boolean;   // The user said yes to a tool with the 'confirm' policy
+  signal?: AbortSignal;  // The turn's signal, so a cancelled turn stops waiting for the tool
+}
 
 /**
  * Tool Registry Class
@@ -19,96 +50,293 @@ export type FrontendToolEmitter = (toolName: string, parameters: Record<string,
  */
 export class ToolRegistry {
   private frontendToolEmitter?: FrontendToolEmitter;
+  private userId: string = DEFAULT_USER_ID;  // Owner of the long-term memory the tools use
+  private clientTools = new Map<string, number>();  // Frontend tool name -> handler version
 
   /**
    * Set the frontend tool emitter (Socket.io emit function)
    */
-  setFrontendToolEmitter(emitter: FrontendToolEmitter) {
+  setFrontendToolEmitter(emitter: FrontendToolEmitter | undefined) {
     this.frontendToolEmitter = emitter;
   }
 
   /**
-   * Execute a tool call
-   * For changeBackgroundColor, this delegates to the frontend
+   * Set the user whose long-term memory the memory tools read and write
+   */
+  setUserId(userId: string) {
+    this.userId = userId;
+  }
+
+  /**
+   * Set the frontend tools the connected client can run
+   */
+  setClientTools(tools: ClientToolCapability[]) {
+    this.clientTools = new Map(tools.map(tool => [tool.name, tool.version]));
+  }
+
+  /**
+   * Tool schemas offered to the router: backend tools, MCP tools and the
+   * frontend tools the client supports, without denied tools
+   */
+  async getTools(): Promise<Tool[]> {
+    await toolPlugins.load();
+    return [...toolPlugins.list(), ...mcpServers.list()]
+      .filter(plugin => this.isAvailable(plugin) && this.getPolicy(plugin.definition.function.name) !== 'deny')
+      .map(plugin => plugin.definition);
+  }
+
+  /**
+   * Get the schema of a tool available in this session
+   */
+  getDefinition(name: string): Tool | undefined {
+    const plugin = this.findPlugin(name);
+    return plugin && this.isAvailable(plugin) ? plugin.definition : undefined;
+  }
+
+  /**
+   * Policy for a tool: the config override, else the plugin's own, else 'auto'
+   */
+  getPolicy(name: string): ToolPolicy {
+    return agentConfig.toolPolicies[name] ?? this.findPlugin(name)?.policy ?? 'auto';
+  }
+
+  /**
+   * Spoken yes/no question asked before running a tool with the 'confirm' policy
+   */
+  getConfirmationQuestion(name: string, parameters: Record<string, any>): string {
+    const confirmation = this.findPlugin(name)?.confirmation;
+    if (confirmation) {
+      try {
+        return confirmation(parameters);
+      } catch (error) {
+        console.error('[TOOL REGISTRY] Confirmation question failed for', name, ':', error);
+      }
+    }
+
+    return 'Just to check, should I go ahead with that?';
+  }
+
+  /**
+   * Spoken question asking the user for a missing parameter
+   * Uses the plugin's followUps, or one built from the parameter name
+   */
+  getFollowUpQuestion(name: string, parameter: string): string {
+    const question = this.findPlugin(name)?.followUps?.[parameter];
+    if (question) {
+      return question;
+    }
+
+    const words = parameter.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+    return `What ${words} would you like?`;
+  }
+
+  /**
+   * Check a call's arguments against the tool's schema, coercing where safe
+   * Tools that are unknown or not available on this client are errors too
+   */
+  validateCall(toolCall: ToolCall): ArgumentValidation {
+    const plugin = this.findPlugin(toolCall.name);
+    if (!plugin || !this.isAvailable(plugin) || this.getPolicy(toolCall.name) === 'deny') {
+      return { value: toolCall.parameters, errors: [`unknown tool "${toolCall.name}"`], missing: [], repairs: [] };
+    }
+
+    return validateArguments(plugin.definition.function.parameters, toolCall.parameters);
+  }
+
+  /**
+   * Execute a tool call with its plugin
+   * Frontend tools without a handler are forwarded to the client as they are.
+   * Denied tools never run; 'confirm' tools only with options.confirmed.
    */
-  async executeTool(toolCall: ToolCall): Promise<ToolExecutionResult> {
+  async executeTool(toolCall: ToolCall, options: ExecuteToolOptions = {}): Promise<ToolExecutionResult> {
     console.log('[TOOL REGISTRY] Executing tool:', toolCall.name, 'with parameters:', toolCall.parameters);
 
-    switch (toolCall.name) {
-      case 'changeBackgroundColor':
-        return await this.executeChangeBackgroundColor(toolCall.parameters);
+    await toolPlugins.load();
+    const plugin = this.findPlugin(toolCall.name);
+    if (!plugin) {
+      const server = mcpServers.findDisconnectedServer(toolCall.name);
+      return toolError('unavailable', server
+        ? `The ${server} MCP server that provides ${toolCall.name} is not connected`
+        : `Unknown tool: ${toolCall.name}`);
+    }
+
+    if (!this.isAvailable(plugin)) {
+      return toolError('unavailable', `${toolCall.name} is not available on this client`);
+    }
+
+    const policy = this.getPolicy(toolCall.name);
+    if (policy === 'deny') {
+      return toolError('rejected', `${toolCall.name} is disabled by policy`);
+    }
+    if (policy === 'confirm' && !options.confirmed) {
+      return toolError('rejected', `${toolCall.name} needs the user's confirmation`);
+    }
+
+    // The call is abandoned on timeout, and when the turn is cancelled
+    const timeoutMs = plugin.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), timeoutMs);
+    const signal = options.signal ? AbortSignal.any([timeout.signal, options.signal]) : timeout.signal;
+
+    const context: ToolContext = {
+      userId: this.userId,
+      signal,
+      runOnFrontend: (parameters) => this.runOnFrontend(toolCall.name, parameters, signal),
+    };
+
+    // Never rejects, so a handler failing after a timeout can't go unhandled
+    const run = (async (): Promise<ToolExecutionResult> => {
+      try {
+        const result = plugin.handler
+          ? await plugin.handler(toolCall.parameters, context)
+          : await context.runOnFrontend(toolCall.parameters);
+        return result.success || result.errorCode ? result : { ...result, errorCode: 'failed' };
+      } catch (error) {
+        return toolError('failed', error instanceof Error ? error.message : 'Unknown error');
+      }
+    })();
+
+    let onAbort = () => {};
+    const abandoned = new Promise<ToolExecutionResult>(resolve => {
+      onAbort = () => resolve(timeout.signal.aborted
+        ? toolError('timeout', `${toolCall.name} did not finish within ${timeoutMs / 1000} s`)
+        : toolError('rejected', `${toolCall.name} was cancelled`));
+    });
 
-      default:
-        return {
-          success: false,
-          error: `Unknown tool: ${toolCall.name}`,
-        };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
     }
+    run.finally(() => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    });
+
+    return Promise.race([run, abandoned]);
   }
 
   /**
-   * Execute changeBackgroundColor tool (frontend-delegated)
+   * Summarize a tool result in one line for the conversation model
+   * Uses the plugin's summarizer when it has one
    */
-  private async executeChangeBackgroundColor(parameters: Record<string, any>): Promise<ToolExecutionResult> {
-    if (!this.frontendToolEmitter) {
-      return {
-        success: false,
-        error: 'Frontend tool emitter not configured',
-      };
+  summarizeResult(toolName: string, execution: ToolExecutionResult, parameters: Record<string, any> = {}): string {
+    const plugin = this.findPlugin(toolName);
+    if (plugin?.summarize) {
+      try {
+        return plugin.summarize(execution, parameters);
+      } catch (error) {
+        console.error('[TOOL REGISTRY] Summarizer failed for', toolName, ':', error);
+      }
     }
 
-    try {
-      const color = parameters.color;
+    if (!execution.success) {
+      return describeFailure(toolName, execution);
+    }
 
-      // Convert color names to hex if needed
-      const hexColor = this.colorToHex(color);
+    if (typeof execution.result?.message === 'string') {
+      return `${toolName} succeeded: ${execution.result.message}`;
+    }
 
-      console.log('[TOOL] Delegating changeBackgroundColor to frontend:', hexColor);
+    return `${toolName} succeeded: ${JSON.stringify(execution.result ?? {})}`;
+  }
 
-      // Delegate to frontend
-      const result = await this.frontendToolEmitter('changeBackgroundColor', { color: hexColor });
+  /**
+   * Spoken credit for the documents the successful calls drew on, e.g.
+   * "Source: Onboarding Guide." Returns '' when there are none, or when the
+   * reply already names one of them.
+   */
+  describeSources(toolCalls: { name: string; result: ToolExecutionResult }[], reply: string): string {
+    const sources = new Set<string>();
+    for (const call of toolCalls) {
+      const plugin = this.findPlugin(call.name);
+      if (!plugin?.sources || !call.result.success) {
+        continue;
+      }
+
+      try {
+        plugin.sources(call.result).forEach(source => sources.add(source));
+      } catch (error) {
+        console.error('[TOOL REGISTRY] Sources failed for', call.name, ':', error);
+      }
+    }
 
-      return result;
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+    const text = reply.toLowerCase();
+    const names = [...sources];
+    if (names.length === 0 || names.some(source => text.includes(source.toLowerCase()))) {
+      return '';
     }
+
+    return names.length === 1
+      ? `Source: ${names[0]}.`
+      : `Sources: ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}.`;
   }
 
   /**
-   * Convert color names to hex codes
+   * Plugin for a tool name: a built-in plugin, or a tool of a connected MCP server
    */
-  private colorToHex(color: string): string {
-    // If already hex, return as-is
-    if (color.startsWith('#')) {
-      return color;
+  private findPlugin(name: string): ToolPlugin | undefined {
+    return toolPlugins.get(name) ?? mcpServers.get(name);
+  }
+
+  /**
+   * Whether a tool can run in this session
+   * Frontend tools need a client handler with the plugin's version
+   */
+  private isAvailable(plugin: ToolPlugin): boolean {
+    if (plugin.runsOn === 'backend') {
+      return true;
     }
+    return this.clientTools.get(plugin.definition.function.name) === (plugin.version ?? 1);
+  }
 
-    // Common color name to hex mapping
-    const colorMap: Record<string, string> = {
-      'red': '#FF0000',
-      'blue': '#0000FF',
-      'green': '#00FF00',
-      'yellow': '#FFFF00',
-      'orange': '#FFA500',
-      'purple': '#800080',
-      'pink': '#FFC0CB',
-      'cyan': '#00FFFF',
-      'black': '#000000',
-      'white': '#FFFFFF',
-      'gray': '#808080',
-      'grey': '#808080',
-      'dark': '#1a1a1a',
-      'light': '#f5f5f5',
-    };
+  /**
+   * Forward a tool call to the connected client
+   */
+  private async runOnFrontend(toolName: string, parameters: Record<string, any>, signal: AbortSignal): Promise<ToolExecutionResult> {
+    if (!this.frontendToolEmitter) {
+      return toolError('unavailable', 'No client is connected to run it');
+    }
+
+    return this.frontendToolEmitter(toolName, parameters, signal);
+  }
+}
+
+/**
+ * Build a failed tool result
+ */
+export function toolError(errorCode: ToolErrorCode, error: string): ToolExecutionResult {
+  return { success: false, error, errorCode };
+}
 
-    return colorMap[color.toLowerCase()] || color;
+/**
+ * One-line description of a failed call, worded by what went wrong
+ */
+function describeFailure(toolName: string, execution: ToolExecutionResult): string {
+  const error = execution.error || 'Unknown error';
+
+  switch (execution.errorCode) {
+    case 'timeout':
+      return `${toolName} timed out: ${error}`;
+    case 'rejected':
+      return `${toolName} was refused: ${error}`;
+    case 'unavailable':
+      return `${toolName} is unavailable right now: ${error}`;
+    default:
+      return `${toolName} failed: ${error}`;
   }
 }
 
 /**
- * Singleton instance
+ * Parse the tool capabilities a client sent in its handshake
+ * Malformed entries are dropped; a client that sends none is headless
  */
-export const toolRegistry = new ToolRegistry();
+export function parseClientTools(raw: unknown): ClientToolCapability[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.filter((tool): tool is ClientToolCapability =>
+    typeof tool?.name === 'string' && !!tool.name && Number.isInteger(tool.version) && tool.version > 0
+  );
+}
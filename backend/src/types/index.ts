@@ -7,16 +7,26 @@
  */
 export interface SocketEvents {
   // Client -> Server
-  'user-message': (data: { message: string }) => void;
+  'user-message': (data: { message: string; stream?: boolean; turnId?: string; confirm?: boolean }) => void;
+  'cancel-turn': (data: { turnId?: string }) => void;
+  'set-persona': (data: { personaId: string }) => void;
   'get-history': () => void;
   'clear-history': () => void;
 
   // Server -> Client
-  'connected': (data: { message: string; agentInfo: any }) => void;
-  'agent-processing': (data: { status: string }) => void;
-  'agent-response': (data: { message: string; timestamp: string }) => void;
-  'agent-error': (data: { error: string; timestamp: string }) => void;
-  'conversation-history': (data: { history: any[] }) => void;
+  'connected': (data: { message: string; sessionId: string; userId: string; persona: any; personas: any[]; tools: string[]; agentInfo: any }) => void;
+  'persona-changed': (data: { persona: any }) => void;
+  'agent-processing': (data: { turnId: string; status: string }) => void;
+  'agent-response': (data: { turnId: string; displayText: string; speechText: string; tts: any; timestamp: string; processingTimeMs: number }) => void;
+  'agent-response-start': (data: { turnId: string; timestamp: string }) => void;
+  'agent-response-chunk': (data: { turnId: string; text: string }) => void;
+  'agent-response-sentence': (data: { turnId: string; index: number; displayText: string; speechText: string; tts: any }) => void;
+  'agent-response-end': (data: { turnId: string; displayText: string; speechText: string; sentenceCount: number; timestamp: string; processingTimeMs: number }) => void;
+  'agent-response-cancelled': (data: { turnId: string; timestamp: string }) => void;
+  'agent-proactive': (data: { displayText: string; speechText: string; tts: any; timestamp: string; reminder: { id: string; kind: 'timer' | 'reminder'; dueAt: string } }) => void;
+  'tool-confirmation': (data: { turnId?: string; toolName: string; arguments: Record<string, any>; question: string }) => void;
+  'agent-error': (data: { turnId?: string; error: string; timestamp: string }) => void;
+  'conversation-history': (data: { sessionId: string; history: any[] }) => void;
   'history-cleared': (data: { message: string; timestamp: string }) => void;
 }
 
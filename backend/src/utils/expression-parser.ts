@@ -0,0 +1,332 @@
+/**
+ * Expression Parser
+ * Evaluates arithmetic for the calculate tool with a small recursive-descent
+ * parser: numbers, + - * / ^, mod, percentages, parentheses and a fixed set
+ * of math functions and constants. Nothing is ever passed to eval, and any
+ * other identifier is an error.
+ */
+
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_DEPTH = 50;  // Nesting of parentheses and unary operators
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  sqrt: { arity: [1, 1], apply: Math.sqrt },
+  cbrt: { arity: [1, 1], apply: Math.cbrt },
+  abs: { arity: [1, 1], apply: Math.abs },
+  round: { arity: [1, 1], apply: Math.round },
+  floor: { arity: [1, 1], apply: Math.floor },
+  ceil: { arity: [1, 1], apply: Math.ceil },
+  sin: { arity: [1, 1], apply: (x) => Math.sin(toRadians(x)) },
+  cos: { arity: [1, 1], apply: (x) => Math.cos(toRadians(x)) },
+  tan: { arity: [1, 1], apply: (x) => Math.tan(toRadians(x)) },
+  log: { arity: [1, 1], apply: Math.log10 },
+  ln: { arity: [1, 1], apply: Math.log },
+  exp: { arity: [1, 1], apply: Math.exp },
+  pow: { arity: [2, 2], apply: Math.pow },
+  min: { arity: [1, 10], apply: Math.min },
+  max: { arity: [1, 10], apply: Math.max },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Spoken operators, replaced before parsing (longest phrases first)
+ */
+const WORD_OPERATORS: [RegExp, string][] = [
+  [/\bto the power of\b/g, '^'],
+  [/\bmultiplied by\b/g, '*'],
+  [/\bdivided by\b/g, '/'],
+  [/\bsquare root of\b/g, 'sqrt '],
+  [/\bsquared\b/g, '^2'],
+  [/\bcubed\b/g, '^3'],
+  [/\bplus\b/g, '+'],
+  [/\bminus\b/g, '-'],
+  [/\btimes\b/g, '*'],
+  [/\bover\b/g, '/'],
+  [/\bmodulo\b/g, 'mod'],
+  [/\bpercent\b/g, '%'],
+  [/(\d)\s*x\s*(?=[\d(.])/g, '$1*'],
+  [/[×·]/g, '*'],
+  [/÷/g, '/'],
+  [/\*\*/g, '^'],
+];
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+/**
+ * Evaluate an arithmetic expression such as "12 * (3 + 4)", "15% of 80",
+ * "sqrt(2)" or "7 times 6"
+ * Trigonometry works in degrees. Adding or subtracting a bare percentage is
+ * relative to the left operand, as on a calculator: "100 - 10%" is 90. Throws an Error describing what is wrong
+ * with an invalid expression.
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is too long (max ${MAX_EXPRESSION_LENGTH} characters)`);
+  }
+
+  let text = expression.toLowerCase().replace(/^(what is|what's|calculate|compute)\s+/, '').replace(/[?=]+\s*$/, '');
+  for (const [pattern, replacement] of WORD_OPERATORS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  const parser = new Parser(tokenize(text));
+  const value = parser.parse();
+
+  if (!isFinite(value)) {
+    throw new Error('The result is not a finite number');
+  }
+  return value;
+}
+
+/**
+ * Round away floating-point noise (0.1 + 0.2 is 0.3) for display
+ */
+export function formatNumber(value: number, significantDigits: number = 12): string {
+  const rounded = Number(value.toPrecision(significantDigits));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Split an expression into numbers, names and operators
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d(?:[\d,]*\d)?(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+)|([a-z]+)|([-+*/^%(),]))/y;
+
+  let index = 0;
+  while (index < text.length) {
+    if (/^\s*$/.test(text.slice(index))) {
+      break;
+    }
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match) {
+      throw new Error(`Unexpected character "${text.slice(index).trim()[0]}"`);
+    }
+    index = pattern.lastIndex;
+
+    if (match[1]) {
+      // Thousands separators: "1,000" but not "max(1,2)"
+      const number = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(match[1]) ? match[1].replace(/,/g, '') : match[1];
+      if (number.includes(',')) {
+        const [head, ...rest] = number.split(',');
+        tokens.push({ type: 'number', value: parseFloat(head) });
+        for (const part of rest) {
+          tokens.push({ type: 'op', value: ',' });
+          tokens.push({ type: 'number', value: parseFloat(part) });
+        }
+      } else {
+        tokens.push({ type: 'number', value: parseFloat(number) });
+      }
+    } else if (match[2]) {
+      tokens.push({ type: 'name', value: match[2] });
+    } else {
+      tokens.push({ type: 'op', value: match[3] });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser, evaluating as it goes
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | 'mod' | 'of' | implicit) unary)*
+ *   unary      := ('+' | '-') unary | power
+ *   power      := postfix ('^' unary)?
+ *   postfix    := primary '%'*
+ *   primary    := number | constant | function '(' args ')' | function primary | '(' expression ')'
+ */
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+  private depth = 0;
+  private percentage?: { start: number; end: number };  // Tokens of the last "x%" operand
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): number {
+    if (this.tokens.length === 0) {
+      throw new Error('The expression is empty');
+    }
+
+    const value = this.expression();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(`Unexpected "${extra.value}"`);
+    }
+    return value;
+  }
+
+  private expression(): number {
+    let value = this.term();
+    for (let token = this.peek(); token?.type === 'op' && (token.value === '+' || token.value === '-'); token = this.peek()) {
+      this.position++;
+      const start = this.position;
+      const right = this.term();
+
+      // "100 - 10%": the whole right operand is a percentage of the left one
+      const relative = this.percentage?.start === start && this.percentage.end === this.position;
+      const amount = relative ? value * right : right;
+      value = token.value === '+' ? value + amount : value - amount;
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.unary();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type === 'op' && (token.value === '*' || token.value === '/')) {
+        this.position++;
+        const right = this.unary();
+        if (token.value === '/' && right === 0) {
+          throw new Error('Division by zero');
+        }
+        value = token.value === '*' ? value * right : value / right;
+      } else if (token?.type === 'name' && (token.value === 'mod' || token.value === 'of')) {
+        this.position++;
+        const right = this.unary();
+        if (token.value === 'mod' && right === 0) {
+          throw new Error('Division by zero');
+        }
+        value = token.value === 'mod' ? value % right : value * right;
+      } else if ((token?.type === 'op' && token.value === '(') || (token?.type === 'name' && this.isOperand(token.value))) {
+        // Implicit multiplication: "2 pi", "3(4 + 1)"
+        value *= this.unary();
+      } else {
+        return value;
+      }
+    }
+  }
+
+  private unary(): number {
+    const token = this.peek();
+    if (token?.type === 'op' && (token.value === '-' || token.value === '+')) {
+      this.position++;
+      const operand = this.nested(() => this.unary());
+      return token.value === '-' ? -operand : operand;
+    }
+    return this.power();
+  }
+
+  private power(): number {
+    const base = this.postfix();
+    const token = this.peek();
+    if (token?.type === 'op' && token.value === '^') {
+      this.position++;
+      // Right-associative, and binds tighter than a unary minus on its left: -2^2 is -4
+      return Math.pow(base, this.nested(() => this.unary()));
+    }
+    return base;
+  }
+
+  private postfix(): number {
+    const start = this.position;
+    let value = this.primary();
+    while (this.peek()?.type === 'op' && this.peek()?.value === '%') {
+      this.position++;
+      value /= 100;
+      this.percentage = { start, end: this.position };
+    }
+    return value;
+  }
+
+  private primary(): number {
+    const token = this.next();
+    if (!token) {
+      throw new Error('The expression ends too early');
+    }
+
+    if (token.type === 'number') {
+      return token.value;
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const value = this.nested(() => this.expression());
+      this.expect(')');
+      return value;
+    }
+
+    if (token.type === 'name') {
+      if (token.value in CONSTANTS) {
+        return CONSTANTS[token.value];
+      }
+
+      const fn = FUNCTIONS[token.value];
+      if (fn) {
+        const args = this.peek()?.value === '(' ? this.arguments() : [this.nested(() => this.power())];
+        const [minArgs, maxArgs] = fn.arity;
+        if (args.length < minArgs || args.length > maxArgs) {
+          throw new Error(`${token.value} takes ${minArgs === maxArgs ? minArgs : `${minArgs} to ${maxArgs}`} argument(s)`);
+        }
+        return fn.apply(...args);
+      }
+
+      throw new Error(`Unknown name "${token.value}"`);
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+
+  private arguments(): number[] {
+    this.expect('(');
+    const args = [this.nested(() => this.expression())];
+    while (this.peek()?.value === ',') {
+      this.position++;
+      args.push(this.nested(() => this.expression()));
+    }
+    this.expect(')');
+    return args;
+  }
+
+  /**
+   * Whether a name can start an operand (as opposed to 'mod' or 'of')
+   */
+  private isOperand(name: string): boolean {
+    return name in CONSTANTS || name in FUNCTIONS;
+  }
+
+  private nested(parse: () => number): number {
+    if (++this.depth > MAX_DEPTH) {
+      throw new Error('The expression is nested too deeply');
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token?.value !== value) {
+      throw new Error(`Expected "${value}"`);
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+}
+
+/**
+ * Degrees to radians
+ */
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
@@ -1,6 +1,8 @@
 /**
  * Text Processing Utilities
- * Handles emoji stripping and text formatting for TTS vs display
+ * Turns response text into speech text: strips emojis, markdown and action
+ * text, reads URLs and code sensibly, and expands numbers, dates, currencies
+ * and units into words. The display text is left as the model wrote it
  */
 
 /**
@@ -19,19 +21,52 @@ export function stripEmojis(text: string): string {
  */
 export interface ProcessedText {
   display: string;  // Original text with emojis for visual display
-  speech: string;   // Text without emojis for TTS
+  speech: string;   // Text normalized for TTS
 }
 
 /**
  * Process response text for both display and speech
  */
-export function processResponseText(text: string): ProcessedText {
+export function processResponseText(text: string, pronunciations: Pronunciations = {}): ProcessedText {
   return {
     display: text,
-    speech: stripEmojis(text),
+    speech: normalizeSpeech(text, pronunciations),
   };
 }
 
+/**
+ * Words to say differently, e.g. { "nginx": "engine x" }
+ * Words without capitals match in any case; words with capitals only as written
+ */
+export type Pronunciations = Record<string, string>;
+
+/**
+ * Rewrite text the way it should be spoken
+ * Each step works on the output of the one before, so the order matters:
+ * markup first, then the pronunciation lexicon (so it can override
+ * everything after it), then the patterns that contain numbers, most
+ * specific first, and plain numbers last
+ */
+export function normalizeSpeech(text: string, pronunciations: Pronunciations = {}): string {
+  let speech = text;
+
+  speech = replaceCode(speech);
+  speech = replaceLinks(speech);
+  speech = speakUrls(speech);
+  speech = stripMarkdown(speech);
+  speech = applyPronunciations(speech, pronunciations);
+  speech = expandAbbreviations(speech);
+  speech = expandCurrency(speech);
+  speech = expandDates(speech);
+  speech = expandTimes(speech);
+  speech = expandRanges(speech);
+  speech = expandUnits(speech);
+  speech = expandNumbers(speech);
+  speech = speakSymbols(speech);
+
+  return stripEmojis(speech);
+}
+
 /**
  * Clean up text formatting
  */
@@ -41,3 +76,512 @@ export function cleanText(text: string): string {
     .replace(/\n{3,}/g, '\n\n')  // Multiple newlines to double newline
     .trim();
 }
+
+/**
+ * Result of splitting a streaming text buffer into sentences
+ */
+export interface SentenceSplit {
+  sentences: string[];  // Complete sentences, ready for TTS
+  remainder: string;    // Unfinished text still waiting for more tokens
+}
+
+/**
+ * Abbreviations that end with a period but don't end a sentence
+ */
+const NON_TERMINAL_ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e'];
+
+/**
+ * Split complete sentences off the front of a streaming text buffer
+ * A sentence ends at . ! ? or … followed by whitespace, or at a line break
+ * A code block is kept whole, so it can be replaced as a unit
+ */
+export function extractSentences(buffer: string): SentenceSplit {
+  const sentences: string[] = [];
+  const boundaryRegex = /[.!?…]+["')\]]*\s+|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundaryRegex.exec(buffer)) !== null) {
+    const end = match.index + match[0].length;
+    const candidate = buffer.slice(start, end).trim();
+
+    // Don't break inside a code block that hasn't been closed yet
+    if ((candidate.match(/```/g)?.length ?? 0) % 2 === 1) {
+      continue;
+    }
+
+    // Don't break after abbreviations like "Dr." or "e.g.", or a list number like "1."
+    const lastWord = candidate.split(/\s+/).pop()?.replace(/\.$/, '').toLowerCase() || '';
+    if (match[0].startsWith('.') && (NON_TERMINAL_ABBREVIATIONS.includes(lastWord) || /^\d+\.$/.test(candidate))) {
+      continue;
+    }
+
+    if (candidate) {
+      sentences.push(candidate);
+    }
+    start = end;
+  }
+
+  return {
+    sentences,
+    remainder: buffer.slice(start),
+  };
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+/**
+ * A plain number: optional minus, digits with optional thousands separators,
+ * optional decimals
+ */
+const NUMBER = String.raw`-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?`;
+
+/**
+ * Say a whole number below a quadrillion
+ */
+function integerToWords(n: number): string {
+  if (n < 20) {
+    return ONES[n];
+  }
+  if (n < 100) {
+    return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '');
+  }
+  if (n < 1000) {
+    return `${ONES[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${integerToWords(n % 100)}` : '');
+  }
+
+  const parts: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) {
+      parts.unshift(integerToWords(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+    }
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Say digits one by one ("007" → "zero zero seven")
+ */
+function spellDigits(digits: string): string {
+  return [...digits].map(digit => ONES[Number(digit)]).join(' ');
+}
+
+/**
+ * Say a number written with digits, e.g. "-1,234.5" → "minus one thousand
+ * two hundred thirty-four point five"
+ */
+export function numberToWords(value: string): string {
+  const match = /^(-)?(\d[\d,]*)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) {
+    return value;
+  }
+
+  const [, sign, whole, fraction] = match;
+  const digits = whole.replace(/,/g, '');
+  let words = digits.length > 15 || (digits.length > 1 && digits.startsWith('0'))
+    ? spellDigits(digits)
+    : integerToWords(Number(digits));
+  if (fraction) {
+    words += ` point ${spellDigits(fraction)}`;
+  }
+  return (sign ? 'minus ' : '') + words;
+}
+
+/**
+ * "21" → "twenty-first"
+ */
+function ordinalToWords(n: number): string {
+  return integerToWords(n).replace(/[a-z]+$/, last =>
+    IRREGULAR_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`));
+}
+
+/**
+ * Say a year the way people do: "1999" → "nineteen ninety-nine",
+ * "2005" → "two thousand five", "2026" → "twenty twenty-six"
+ */
+function yearToWords(year: number): string {
+  if (year < 1100 || year >= 10000 || (year >= 2000 && year < 2010)) {
+    return integerToWords(year);
+  }
+
+  const century = integerToWords(Math.floor(year / 100));
+  const rest = year % 100;
+  if (rest === 0) {
+    return `${century} hundred`;
+  }
+  return rest < 10 ? `${century} oh ${ONES[rest]}` : `${century} ${integerToWords(rest)}`;
+}
+
+/**
+ * Code blocks can't be read aloud usefully; short inline code is read with
+ * its punctuation spoken
+ */
+function replaceCode(text: string): string {
+  return text
+    .replace(/```[^\n]*\n?[\s\S]*?(?:```|$)/g, ' There is a code sample on screen. ')
+    .replace(/`([^`\n]+)`/g, (_, code: string) => speakInlineCode(code));
+}
+
+function speakInlineCode(code: string): string {
+  if (code.length > 40) {
+    return 'the code on screen';
+  }
+
+  return code
+    .replace(/\(\)/g, '')                            // getName() → getName
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')          // camelCase → camel Case
+    .replace(/(?<=\w)[_]+(?=\w)/g, ' ')               // snake_case → snake case
+    .replace(/(?<=\w)\.(?=\w)/g, ' dot ')
+    .replace(/(^|\s)--?(?=\w)/g, (_, before: string) => `${before}dash `)
+    .replace(/\//g, ' slash ')
+    .replace(/=/g, ' equals ');
+}
+
+/**
+ * Markdown links and images are read as their text
+ */
+function replaceLinks(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1');
+}
+
+/**
+ * URLs are read as their site name ("github dot com"), email addresses in full
+ */
+function speakUrls(text: string): string {
+  const spokenHost = (host: string) => host.replace(/^www\./i, '').toLowerCase().split('.').join(' dot ');
+
+  return text
+    .replace(/\b([\w.+-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)+)\b/gi, (_, user: string, host: string) =>
+      `${user.split('.').join(' dot ')} at ${spokenHost(host)}`)
+    .replace(/\b(?:https?:\/\/|www\.)[^\s<>()"']+/gi, (url) => {
+      const trailing = /[.,;:!?]+$/.exec(url)?.[0] ?? '';
+      const host = url.slice(0, url.length - trailing.length).replace(/^https?:\/\//i, '').split(/[/?#:]/)[0];
+      return spokenHost(host) + trailing;
+    })
+    .replace(/\b([a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|dev|ai|app|edu|gov|co\.uk|uk|de))(?:\/[^\s<>()"']*)?(?![\w.]*\w)/gi,
+      (_, host: string) => spokenHost(host));
+}
+
+/**
+ * Headings, bullets, quotes, tables, emphasis and *stage directions*
+ */
+function stripMarkdown(text: string): string {
+  const result = text
+    .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, '')   // Horizontal rules
+    .replace(/^[ \t]*\|?[ \t]*:?-{3,}.*$/gm, '')     // Table separators
+    .replace(/^[ \t]*\|(.*?)\|?[ \t]*$/gm, '$1')     // Table rows
+    .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')            // Headings
+    .replace(/^[ \t]*>[ \t]?/gm, '')                 // Quotes
+    .replace(/^[ \t]*(?:[-*+•]|\d+[.)])[ \t]+/gm, '') // List items
+    .replace(/([^\s.!?,;:])[ \t]*\n+/g, '$1.\n')    // A line without punctuation still ends a phrase
+    .replace(/\|/g, ', ')                            // Table cells
+    .replace(/\*\*\*(.+?)\*\*\*/g, '$1')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/(?<!\w)__(.+?)__(?!\w)/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1');
+
+  // Actions like "*giggles*" or "[laughs]", wherever they are; an asterisk
+  // with a space after it, or inside a word, is math ("2 * 3", "2*3")
+  return result
+    .replace(/(?<![*\w])\*(?![\s*])[^*\n]*?(?<!\s)\*(?![*\w])/g, '')
+    .replace(/\[[a-z][^\]\n]{0,40}\]/g, '')
+    .replace(/(?<!\w)_(?!\s)([^_\n]+?)_(?!\w)/g, '$1');
+}
+
+/**
+ * Replace words from the pronunciation lexicon
+ */
+function applyPronunciations(text: string, pronunciations: Pronunciations): string {
+  const words = Object.keys(pronunciations).filter(word => word.trim());
+  if (words.length === 0) {
+    return text;
+  }
+
+  // Longest first, so "Node.js" wins over "Node"
+  const escape = (word: string) => word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const alternatives = words.sort((a, b) => b.length - a.length).map(escape).join('|');
+  const pattern = new RegExp(`(?<![\\w])(?:${alternatives})(?![\\w])`, 'gi');
+
+  const exact = new Map(words.map(word => [word.trim(), pronunciations[word]]));
+  const anyCase = new Map(words.filter(word => word === word.toLowerCase()).map(word => [word.trim(), pronunciations[word]]));
+
+  return text.replace(pattern, (match) => exact.get(match) ?? anyCase.get(match.toLowerCase()) ?? match);
+}
+
+
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\be\.g\.(?=\s|,|$)/gi, 'for example'],
+  [/\bi\.e\.(?=\s|,|$)/gi, 'that is'],
+  [/\betc\.(?=\s+[A-Z]|\s*$)/g, 'et cetera.'],
+  [/\betc\.?/g, 'et cetera'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+  [/\bapprox\.(?=\s)/gi, 'approximately'],
+  [/\bDr\.(?=\s+[A-Z])/g, 'Doctor'],
+  [/\bMr\.(?=\s+[A-Z])/g, 'Mister'],
+  [/\bMrs\.(?=\s+[A-Z])/g, 'Missus'],
+  [/\bMs\.(?=\s+[A-Z])/g, 'Miz'],
+  [/\bNo\.\s?(?=\d)/g, 'number '],
+  [/#(?=\d)/g, 'number '],
+  [/\b([CF])#(?!\w)/g, '$1 sharp'],
+  [/\bC\+\+(?!\w)/g, 'C plus plus'],
+  [/\bw\/o(?=\s)/gi, 'without'],
+  [/\bw\/(?=\s)/gi, 'with'],
+];
+
+function expandAbbreviations(text: string): string {
+  return ABBREVIATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+const CURRENCIES: Record<string, { unit: string; units: string; cent?: string; cents?: string }> = {
+  '$': { unit: 'dollar', units: 'dollars', cent: 'cent', cents: 'cents' },
+  '€': { unit: 'euro', units: 'euros', cent: 'cent', cents: 'cents' },
+  '£': { unit: 'pound', units: 'pounds', cent: 'penny', cents: 'pence' },
+  '¥': { unit: 'yen', units: 'yen' },
+};
+const CURRENCY_CODES: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+const MAGNITUDES: Record<string, string> = {
+  k: 'thousand', K: 'thousand', thousand: 'thousand',
+  m: 'million', M: 'million', mn: 'million', million: 'million',
+  b: 'billion', B: 'billion', bn: 'billion', billion: 'billion',
+  t: 'trillion', T: 'trillion', trillion: 'trillion',
+};
+
+/**
+ * "$3.50" → "three dollars and fifty cents", "€1.5M" → "one point five million euros"
+ */
+function sayMoney(symbol: string, amount: string, magnitude?: string): string {
+  const currency = CURRENCIES[symbol];
+  const value = amount.replace(/,/g, '');
+  if (magnitude) {
+    return `${numberToWords(value)} ${MAGNITUDES[magnitude]} ${currency.units}`;
+  }
+
+  const [whole, fraction] = value.split('.');
+  if (fraction?.length === 2 && currency.cent) {
+    const cents = Number(fraction);
+    const parts: string[] = [];
+    if (Number(whole) > 0 || cents === 0) {
+      parts.push(`${numberToWords(whole)} ${Number(whole) === 1 ? currency.unit : currency.units}`);
+    }
+    if (cents > 0) {
+      parts.push(`${integerToWords(cents)} ${cents === 1 ? currency.cent : currency.cents}`);
+    }
+    return parts.join(' and ');
+  }
+
+  return `${numberToWords(value)} ${value === '1' ? currency.unit : currency.units}`;
+}
+
+function expandCurrency(text: string): string {
+  const amount = String.raw`(\d[\d,]*(?:\.\d+)?)`;
+  const magnitude = String.raw`(?:(k|K|m|M|mn|b|B|bn|t|T)\b|\s(thousand|million|billion|trillion)\b)?`;
+
+  return text
+    .replace(new RegExp(`([$€£¥])\\s?${amount}${magnitude}`, 'g'),
+      (_, symbol: string, value: string, short?: string, long?: string) => sayMoney(symbol, value, short ?? long))
+    .replace(new RegExp(`\\b(USD|EUR|GBP|JPY)\\s?${amount}${magnitude}`, 'g'),
+      (_, code: string, value: string, short?: string, long?: string) => sayMoney(CURRENCY_CODES[code], value, short ?? long))
+    .replace(new RegExp(`(?<![\\w.])${amount}\\s?(USD|EUR|GBP|JPY)\\b`, 'g'),
+      (_, value: string, code: string) => sayMoney(CURRENCY_CODES[code], value));
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MONTH_NAME = String.raw`(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec)`;
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.slice(0, 3)));
+}
+
+function sayDate(month: number, day: number, year?: number): string | undefined {
+  if (month < 0 || month > 11 || day < 1 || day > 31) {
+    return undefined;
+  }
+  return `${MONTHS[month]} ${ordinalToWords(day)}` + (year !== undefined ? `, ${yearToWords(year)}` : '');
+}
+
+/**
+ * "2026-10-19", "10/19/2026", "Oct 19, 2026" and "19 October" → "October nineteenth, twenty twenty-six"
+ * Decades too: "1990s" → "nineteen nineties", "'80s" → "eighties"
+ */
+function expandDates(text: string): string {
+  return text
+    .replace(/(?<![\w.])'?(\d{4}|\d0)s\b/g, (match, decade: string) => {
+      const n = Number(decade);
+      if (n % 10 !== 0) {
+        return match;
+      }
+      const words = decade.length === 4 ? yearToWords(n) : integerToWords(n);
+      return words.endsWith('y') ? `${words.slice(0, -1)}ies` : `${words}s`;
+    })
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\b/g,
+      (match, year: string, month: string, day: string, time?: string) => {
+        const date = sayDate(Number(month) - 1, Number(day), Number(year));
+        return date ? date + (time ? ` at ${time}` : '') : match;
+      })
+    .replace(/(?<![\w/.])(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?![\w/])/g, (match, first: string, second: string, year: string) => {
+      // Month first, as in US English, unless that can't be a month
+      const [month, day] = Number(first) > 12 ? [second, first] : [first, second];
+      return sayDate(Number(month) - 1, Number(day), Number(year.length === 2 ? `20${year}` : year)) ?? match;
+    })
+    .replace(new RegExp(String.raw`\b${MONTH_NAME}\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4})\b)?`, 'g'),
+      (match, month: string, day: string, year?: string) =>
+        sayDate(monthIndex(month), Number(day), year ? Number(year) : undefined) ?? match)
+    .replace(new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH_NAME}\b(?:,?\s+(\d{4})\b)?`, 'g'),
+      (match, day: string, month: string, year?: string) => {
+        const date = sayDate(monthIndex(month), Number(day), year ? Number(year) : undefined);
+        return date ? `the ${date.replace(/^(\w+) (\S+)/, '$2 of $1')}` : match;
+      });
+}
+
+/**
+ * "3:05 pm" → "three oh five P M", "10:00" → "ten o'clock", "6pm" → "six P M"
+ */
+function expandTimes(text: string): string {
+  const meridiem = (value?: string) => value ? ` ${value[0].toUpperCase()} M` : '';
+
+  return text
+    .replace(/(?<![\w:.])(\d{1,2}):(\d{2})(?::\d{2})?(?:\s?([AaPp])(?:\.[Mm]\.|[Mm])(?!\w))?/g, (match, hours: string, minutes: string, ampm?: string) => {
+      const hour = Number(hours);
+      const minute = Number(minutes);
+      if (hour > 23 || minute > 59) {
+        return match;
+      }
+
+      const spokenHour = integerToWords(hour);
+      if (minute === 0) {
+        if (ampm) {
+          return spokenHour + meridiem(ampm);
+        }
+        return hour > 0 && hour <= 12 ? `${spokenHour} o'clock` : `${spokenHour} hundred`;
+      }
+      const spokenMinute = minute < 10 ? `oh ${ONES[minute]}` : integerToWords(minute);
+      return `${spokenHour} ${spokenMinute}${meridiem(ampm)}`;
+    })
+    .replace(/(?<![\w:.])(\d{1,2})\s?([AaPp])(?:\.[Mm]\.|[Mm])(?!\w)/g, (match, hours: string, ampm: string) =>
+      Number(hours) >= 1 && Number(hours) <= 12 ? integerToWords(Number(hours)) + meridiem(ampm) : match);
+}
+
+/**
+ * "5-10" and "5 – 10" → "5 to 10" (the numbers are expanded later)
+ */
+function expandRanges(text: string): string {
+  return text.replace(/(?<![\w.-])(\d+(?:\.\d+)?)(?:-|\s?–\s?)(\d+(?:\.\d+)?)(?![\w.]|-\d)/g, '$1 to $2');
+}
+
+/**
+ * Unit symbols after a number: [symbol, singular, plural]
+ */
+const UNITS: Array<[string, string, string]> = [
+  ['%', 'percent', 'percent'],
+  ['°C', 'degree Celsius', 'degrees Celsius'],
+  ['°F', 'degree Fahrenheit', 'degrees Fahrenheit'],
+  ['°', 'degree', 'degrees'],
+  ['KB', 'kilobyte', 'kilobytes'], ['kB', 'kilobyte', 'kilobytes'],
+  ['MB', 'megabyte', 'megabytes'], ['GB', 'gigabyte', 'gigabytes'],
+  ['TB', 'terabyte', 'terabytes'], ['PB', 'petabyte', 'petabytes'],
+  ['kbps', 'kilobit per second', 'kilobits per second'],
+  ['Mbps', 'megabit per second', 'megabits per second'],
+  ['Gbps', 'gigabit per second', 'gigabits per second'],
+  ['Hz', 'hertz', 'hertz'], ['kHz', 'kilohertz', 'kilohertz'],
+  ['MHz', 'megahertz', 'megahertz'], ['GHz', 'gigahertz', 'gigahertz'],
+  ['mm', 'millimeter', 'millimeters'], ['cm', 'centimeter', 'centimeters'],
+  ['m', 'meter', 'meters'], ['km', 'kilometer', 'kilometers'],
+  ['ft', 'foot', 'feet'], ['mi', 'mile', 'miles'],
+  ['mg', 'milligram', 'milligrams'], ['g', 'gram', 'grams'], ['kg', 'kilogram', 'kilograms'],
+  ['lb', 'pound', 'pounds'], ['lbs', 'pound', 'pounds'], ['oz', 'ounce', 'ounces'],
+  ['ml', 'milliliter', 'milliliters'], ['mL', 'milliliter', 'milliliters'],
+  ['l', 'liter', 'liters'], ['L', 'liter', 'liters'], ['gal', 'gallon', 'gallons'],
+  ['mph', 'mile per hour', 'miles per hour'],
+  ['km/h', 'kilometer per hour', 'kilometers per hour'], ['kph', 'kilometer per hour', 'kilometers per hour'],
+  ['ms', 'millisecond', 'milliseconds'], ['s', 'second', 'seconds'],
+  ['sec', 'second', 'seconds'], ['secs', 'second', 'seconds'],
+  ['min', 'minute', 'minutes'], ['mins', 'minute', 'minutes'],
+  ['h', 'hour', 'hours'], ['hr', 'hour', 'hours'], ['hrs', 'hour', 'hours'],
+  ['W', 'watt', 'watts'], ['kW', 'kilowatt', 'kilowatts'], ['kWh', 'kilowatt hour', 'kilowatt hours'],
+  ['V', 'volt', 'volts'], ['mAh', 'milliamp hour', 'milliamp hours'],
+  ['px', 'pixel', 'pixels'], ['fps', 'frame per second', 'frames per second'],
+  ['x', 'times', 'times'],
+];
+
+const UNIT_NAMES = new Map(UNITS.map(([symbol, singular, plural]) => [symbol, { singular, plural }]));
+const UNIT_PATTERN = new RegExp(
+  `(?<![\\w.])(${NUMBER})\\s?(${UNITS.map(([symbol]) => symbol).sort((a, b) => b.length - a.length).map(symbol => symbol.replace(/[/]/g, '\\/')).join('|')})(?![\\w°])`,
+  'g',
+);
+
+/**
+ * "3.5GB" → "three point five gigabytes", "1 km" → "one kilometer"
+ */
+function expandUnits(text: string): string {
+  return text.replace(UNIT_PATTERN, (_, value: string, symbol: string) => {
+    const name = UNIT_NAMES.get(symbol)!;
+    const singular = value === '1' || value === '-1';
+    return `${numberToWords(value)} ${singular ? name.singular : name.plural}`;
+  });
+}
+
+const FRACTIONS: Record<string, string> = {
+  '1/2': 'one half', '1/3': 'one third', '2/3': 'two thirds', '1/4': 'one quarter', '3/4': 'three quarters',
+};
+
+/**
+ * Everything else with digits: phone numbers, ordinals, versions, fractions,
+ * magnitudes, labels, years and plain numbers
+ * Without a currency sign, a magnitude is only read from a decimal ("2.5M");
+ * a whole number with a letter is a label ("Room 4B" → "Room four B")
+ */
+function expandNumbers(text: string): string {
+  return text
+    .replace(/(?<![\w-])(\d{3})-(\d{3})-(\d{4})(?![\w-])/g, (_, ...groups: string[]) =>
+      groups.slice(0, 3).map(spellDigits).join(', '))
+    .replace(/(?<![\w.])(\d+)(?:st|nd|rd|th)\b/g, (_, n: string) => ordinalToWords(Number(n)))
+    .replace(/\bv(\d+(?:\.\d+)+)\b/g, 'version $1')
+    .replace(/(?<![\w.])(\d+(?:\.\d+){2,})(?![\w.]*\d)/g, (_, version: string) =>
+      version.split('.').map(part => numberToWords(part)).join(' point '))
+    .replace(/(?<![\w./])(\d+)\/(\d+)(?![\w/])/g, (match, numerator: string, denominator: string) =>
+      FRACTIONS[match] ?? `${numberToWords(numerator)} over ${numberToWords(denominator)}`)
+    .replace(/(?<![\w.])(\d+\.\d+)(k|K|M|B|bn|T)\b/g, (_, value: string, magnitude: string) =>
+      `${numberToWords(value)} ${MAGNITUDES[magnitude]}`)
+    .replace(/(?<![\w.])(\d+)([A-Z])\b/g, (_, value: string, letter: string) => `${numberToWords(value)} ${letter}`)
+    .replace(new RegExp(`(?<![\\w.])${NUMBER}(?!\\w)`, 'g'), (value) => {
+      const year = /^\d{4}$/.test(value) ? Number(value) : 0;
+      return year >= 1100 && year < 2100 ? yearToWords(year) : numberToWords(value);
+    });
+}
+
+const SYMBOLS: Array<[RegExp, string]> = [
+  [/\s*&\s*/g, ' and '],
+  [/\s*(?:->|→)\s*/g, ' to '],
+  [/\s*×\s*/g, ' times '],
+  [/\s*±\s*/g, ' plus or minus '],
+  [/[~≈](?=\s?\w)/g, 'about '],
+  [/\s+\+\s+|(?<=\w)\+(?=\w)/g, ' plus '],
+  [/\s+\*\s+/g, ' times '],
+  [/\s+=\s+/g, ' equals '],
+  [/\s+>\s+/g, ' greater than '],
+  [/\s+<\s+/g, ' less than '],
+  [/(?<=\w)\/(?=\w)/g, ' '],
+  [/@/g, ' at '],
+  [/[*#_`|<>{}[\]\\^]+/g, ' '],
+  [/\s+([.,!?;:])/g, '$1'],
+  [/([.,!?;:])(?:\s*[.,;:])+/g, '$1'],
+  [/^[\s,;:]+/, ''],
+];
+
+/**
+ * Symbols that are spoken as words, and leftover markup that isn't spoken
+ */
+function speakSymbols(text: string): string {
+  return SYMBOLS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
@@ -0,0 +1,262 @@
+/**
+ * Time Parsing Utilities
+ * Turns the spoken durations and times the router passes to the timer and
+ * reminder tools ("5 minutes", "at 6pm", "tomorrow at 9") into dates, and
+ * formats them back for speech
+ * Times without a date are in the server's local time zone
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000, sec: 1000, secs: 1000, second: 1000, seconds: 1000,
+  m: 60000, min: 60000, mins: 60000, minute: 60000, minutes: 60000,
+  h: 3600000, hr: 3600000, hrs: 3600000, hour: 3600000, hours: 3600000,
+  d: 86400000, day: 86400000, days: 86400000,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  fifteen: 15, twenty: 20, thirty: 30, 'forty-five': 45, forty: 40, fifty: 50, sixty: 60, ninety: 90,
+};
+
+// Words need a space before the unit and can't use the one-letter units ("and" is not "an d")
+const WORD_UNITS = Object.keys(UNIT_MS).filter(unit => unit.length > 1).join('|');
+const DURATION_PART = new RegExp(
+  `\\b(?:(half an?|${Object.keys(NUMBER_WORDS).join('|')})\\s+(${WORD_UNITS})|(\\d+(?:\\.\\d+)?)\\s*(${Object.keys(UNIT_MS).join('|')}))\\b`,
+  'g'
+);
+
+/**
+ * Common time zone abbreviations, mapped to a zone that observes them
+ */
+const TIME_ZONE_ABBREVIATIONS: Record<string, string> = {
+  utc: 'UTC', gmt: 'UTC', z: 'UTC',
+  est: 'America/New_York', edt: 'America/New_York', et: 'America/New_York', eastern: 'America/New_York',
+  cst: 'America/Chicago', cdt: 'America/Chicago', ct: 'America/Chicago', central: 'America/Chicago',
+  mst: 'America/Denver', mdt: 'America/Denver', mt: 'America/Denver', mountain: 'America/Denver',
+  pst: 'America/Los_Angeles', pdt: 'America/Los_Angeles', pt: 'America/Los_Angeles', pacific: 'America/Los_Angeles',
+  bst: 'Europe/London', cet: 'Europe/Paris', cest: 'Europe/Paris', eet: 'Europe/Athens',
+  ist: 'Asia/Kolkata', jst: 'Asia/Tokyo', kst: 'Asia/Seoul', aest: 'Australia/Sydney', nzst: 'Pacific/Auckland',
+};
+
+const CLOCK_TIME = /^(?:at\s+)?(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.?|p\.m\.?)?$/;
+
+/**
+ * Parse a duration such as "5 minutes", "1 hour 30 minutes", "an hour and a
+ * half" or "90s" into milliseconds
+ * A bare number is taken as minutes
+ */
+export function parseDuration(text: string): number | undefined {
+  const value = text.toLowerCase().replace(/^(for|in)\s+/, '').replace(/\s+from now$/, '').trim();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return parseFloat(value) * UNIT_MS.minute;
+  }
+
+  let total = 0;
+  let lastUnit: string | undefined;
+  for (const match of value.matchAll(DURATION_PART)) {
+    const amount = match[1] ?? match[3];
+    const unit = match[2] ?? match[4];
+    const count = amount.startsWith('half') ? 0.5 : NUMBER_WORDS[amount] ?? parseFloat(amount);
+    total += count * UNIT_MS[unit];
+    lastUnit = unit;
+  }
+
+  // "an hour and a half"
+  if (lastUnit && /\band a half\b/.test(value)) {
+    total += 0.5 * UNIT_MS[lastUnit];
+  }
+
+  // Everything but filler words must have been understood
+  const leftover = value.replace(DURATION_PART, ' ').replace(/\band a half\b|\band\b|,/g, ' ').trim();
+  return total > 0 && !leftover ? total : undefined;
+}
+
+/**
+ * Parse when a reminder is due: an ISO date-time, a delay ("in 20 minutes")
+ * or a clock time with an optional day ("at 6pm", "tomorrow at 9am", "tonight at 8")
+ * A clock time that has already passed today means the next one.
+ */
+export function parseDueTime(text: string, now: Date = new Date()): Date | undefined {
+  const value = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(text.trim());
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const delay = parseDuration(value);
+  if (delay !== undefined) {
+    return new Date(now.getTime() + delay);
+  }
+
+  const dayMatch = /\b(today|tonight|tomorrow)\b/.exec(value);
+  const day = dayMatch?.[1];
+  const clock = dayMatch ? value.replace(dayMatch[0], ' ').replace(/\s+/g, ' ').trim() : value;
+
+  const time = parseClockTime(clock || (day === 'tonight' ? '8pm' : '9am'));
+  if (!time) {
+    return undefined;
+  }
+
+  let { hours } = time;
+  if (!time.meridiem && day === 'tonight' && hours < 12) {
+    hours += 12;
+  }
+
+  const due = new Date(now);
+  due.setHours(hours, time.minutes, 0, 0);
+
+  if (day === 'tomorrow') {
+    due.setDate(due.getDate() + 1);
+    return due;
+  }
+
+  // "at 6" in the afternoon means 6pm, not 6am tomorrow
+  if (due <= now && !time.meridiem && hours < 12) {
+    due.setHours(hours + 12);
+  }
+  if (due <= now && !day) {
+    due.setHours(hours, time.minutes);
+    due.setDate(due.getDate() + 1);
+  }
+
+  return due;
+}
+
+/**
+ * Say a duration in words, e.g. "1 hour 30 minutes" or "45 seconds"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts = [
+    hours > 0 && plural(hours, 'hour'),
+    minutes > 0 && plural(minutes, 'minute'),
+    seconds > 0 && plural(seconds, 'second'),
+  ].filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(' ') : '0 seconds';
+}
+
+/**
+ * Say when something is due, e.g. "at 6:00 PM" or "tomorrow at 9:00 AM"
+ */
+export function formatDueTime(due: Date, now: Date = new Date()): string {
+  const time = due.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const dayDiff = Math.round((startOfDay(due) - startOfDay(now)) / 86400000);
+  if (dayDiff === 0) {
+    return `at ${time}`;
+  }
+  if (dayDiff === 1) {
+    return `tomorrow at ${time}`;
+  }
+
+  const date = due.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+  return `on ${date} at ${time}`;
+}
+
+/**
+ * The server's own time zone
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Resolve a time zone from an IANA name ("Europe/Paris"), a city in the time
+ * zone database ("tokyo", "New York"), a common abbreviation ("PST") or a UTC
+ * offset ("UTC+2")
+ */
+export function resolveTimeZone(name: string): string | undefined {
+  const value = name.trim().replace(/\s+/g, ' ');
+  if (!value) {
+    return undefined;
+  }
+
+  const abbreviation = TIME_ZONE_ABBREVIATIONS[value.toLowerCase().replace(/ time$/, '')];
+  if (abbreviation) {
+    return abbreviation;
+  }
+
+  // Fixed offsets are 'Etc/GMT' zones, whose sign is inverted
+  const offset = /^(?:utc|gmt)\s*([+-])\s*(\d{1,2})$/i.exec(value);
+  if (offset) {
+    const hours = parseInt(offset[2], 10);
+    return hours === 0 ? 'UTC' : hours <= 14 ? `Etc/GMT${offset[1] === '+' ? '-' : '+'}${hours}` : undefined;
+  }
+
+  if (isValidTimeZone(value)) {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  }
+
+  const city = value.toLowerCase().replace(/ /g, '_');
+  return Intl.supportedValuesOf('timeZone').find(zone => zone.toLowerCase().endsWith(`/${city}`));
+}
+
+/**
+ * Whether the runtime knows a time zone name
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse "6", "6:30", "6pm", "6:30 p.m.", "18:00", "noon" or "midnight"
+ */
+function parseClockTime(text: string): { hours: number; minutes: number; meridiem: boolean } | undefined {
+  const value = text.replace(/^at\s+/, '');
+  if (value === 'noon') {
+    return { hours: 12, minutes: 0, meridiem: true };
+  }
+  if (value === 'midnight') {
+    return { hours: 0, minutes: 0, meridiem: true };
+  }
+
+  const match = CLOCK_TIME.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.[0];
+
+  if (minutes > 59 || hours > 23 || (meridiem && (hours < 1 || hours > 12))) {
+    return undefined;
+  }
+  if (meridiem === 'p' && hours < 12) {
+    hours += 12;
+  }
+  if (meridiem === 'a' && hours === 12) {
+    hours = 0;
+  }
+
+  return { hours, minutes, meridiem: !!meridiem || hours >= 13 || hours === 0 };
+}
+
+/**
+ * "1 minute", "2 minutes"
+ */
+function plural(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Local midnight of a date, in ms
+ */
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
@@ -0,0 +1,42 @@
+/**
+ * Token Estimation
+ * Approximate token counts for keeping prompts inside a model's context
+ * window without loading a tokenizer for every provider
+ */
+
+/**
+ * Average characters per token for English text with SentencePiece/BPE
+ * tokenizers (Gemma, Llama); slightly pessimistic on purpose
+ */
+const CHARS_PER_TOKEN = 3.5;
+
+/**
+ * Tokens added per chat message by role markers and turn delimiters
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Estimate the tokens a chat message occupies in the prompt
+ */
+export function estimateMessageTokens(content: string): number {
+  return estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Cut a text down to roughly maxTokens, ending on a word boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  return `${text.slice(0, maxChars).replace(/\s+\S*$/, '')}...`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Unit Conversion
+ * Converts between units of the same kind for the convertUnits tool, from a
+ * fixed table of units and the names people use for them
+ */
+
+export type UnitCategory = 'length' | 'mass' | 'volume' | 'temperature' | 'speed' | 'area' | 'time' | 'data';
+
+/**
+ * A unit, defined by how it converts to its category's base unit
+ * Temperatures need an offset as well: base = value * factor + offset
+ */
+interface UnitDefinition {
+  category: UnitCategory;
+  singular: string;
+  plural: string;
+  factor: number;
+  offset?: number;
+  aliases: string[];
+}
+
+/**
+ * Result of a conversion
+ */
+export interface UnitConversion {
+  value: number;
+  result: number;
+  from: string;  // Unit names as spoken, singular or plural to match the value
+  to: string;
+  category: UnitCategory;
+}
+
+// Base units: meter, kilogram, liter, kelvin, meter per second, square meter, second, byte
+const UNITS: UnitDefinition[] = [
+  { category: 'length', singular: 'millimeter', plural: 'millimeters', factor: 0.001, aliases: ['mm', 'millimetre', 'millimetres'] },
+  { category: 'length', singular: 'centimeter', plural: 'centimeters', factor: 0.01, aliases: ['cm', 'centimetre', 'centimetres'] },
+  { category: 'length', singular: 'meter', plural: 'meters', factor: 1, aliases: ['m', 'metre', 'metres'] },
+  { category: 'length', singular: 'kilometer', plural: 'kilometers', factor: 1000, aliases: ['km', 'kilometre', 'kilometres', 'kms'] },
+  { category: 'length', singular: 'inch', plural: 'inches', factor: 0.0254, aliases: ['in', '"'] },
+  { category: 'length', singular: 'foot', plural: 'feet', factor: 0.3048, aliases: ['ft', "'"] },
+  { category: 'length', singular: 'yard', plural: 'yards', factor: 0.9144, aliases: ['yd', 'yds'] },
+  { category: 'length', singular: 'mile', plural: 'miles', factor: 1609.344, aliases: ['mi'] },
+  { category: 'length', singular: 'nautical mile', plural: 'nautical miles', factor: 1852, aliases: ['nmi'] },
+
+  { category: 'mass', singular: 'milligram', plural: 'milligrams', factor: 0.000001, aliases: ['mg'] },
+  { category: 'mass', singular: 'gram', plural: 'grams', factor: 0.001, aliases: ['g', 'gramme', 'grammes'] },
+  { category: 'mass', singular: 'kilogram', plural: 'kilograms', factor: 1, aliases: ['kg', 'kgs', 'kilo', 'kilos'] },
+  { category: 'mass', singular: 'metric ton', plural: 'metric tons', factor: 1000, aliases: ['t', 'tonne', 'tonnes'] },
+  { category: 'mass', singular: 'ounce', plural: 'ounces', factor: 0.028349523125, aliases: ['oz'] },
+  { category: 'mass', singular: 'pound', plural: 'pounds', factor: 0.45359237, aliases: ['lb', 'lbs'] },
+  { category: 'mass', singular: 'stone', plural: 'stone', factor: 6.35029318, aliases: ['st', 'stones'] },
+
+  { category: 'volume', singular: 'milliliter', plural: 'milliliters', factor: 0.001, aliases: ['ml', 'millilitre', 'millilitres'] },
+  { category: 'volume', singular: 'liter', plural: 'liters', factor: 1, aliases: ['l', 'litre', 'litres'] },
+  { category: 'volume', singular: 'teaspoon', plural: 'teaspoons', factor: 0.00492892159375, aliases: ['tsp'] },
+  { category: 'volume', singular: 'tablespoon', plural: 'tablespoons', factor: 0.01478676478125, aliases: ['tbsp'] },
+  { category: 'volume', singular: 'fluid ounce', plural: 'fluid ounces', factor: 0.0295735295625, aliases: ['fl oz', 'floz'] },
+  { category: 'volume', singular: 'cup', plural: 'cups', factor: 0.2365882365, aliases: [] },
+  { category: 'volume', singular: 'pint', plural: 'pints', factor: 0.473176473, aliases: ['pt'] },
+  { category: 'volume', singular: 'quart', plural: 'quarts', factor: 0.946352946, aliases: ['qt'] },
+  { category: 'volume', singular: 'gallon', plural: 'gallons', factor: 3.785411784, aliases: ['gal'] },
+
+  { category: 'temperature', singular: 'degree Celsius', plural: 'degrees Celsius', factor: 1, offset: 273.15, aliases: ['c', '°c', 'celsius', 'centigrade'] },
+  { category: 'temperature', singular: 'degree Fahrenheit', plural: 'degrees Fahrenheit', factor: 5 / 9, offset: 273.15 - 32 * 5 / 9, aliases: ['f', '°f', 'fahrenheit'] },
+  { category: 'temperature', singular: 'kelvin', plural: 'kelvin', factor: 1, offset: 0, aliases: ['k', 'kelvins'] },
+
+  { category: 'speed', singular: 'meter per second', plural: 'meters per second', factor: 1, aliases: ['m/s', 'mps'] },
+  { category: 'speed', singular: 'kilometer per hour', plural: 'kilometers per hour', factor: 1000 / 3600, aliases: ['km/h', 'kmh', 'kph', 'kilometres per hour'] },
+  { category: 'speed', singular: 'mile per hour', plural: 'miles per hour', factor: 0.44704, aliases: ['mph', 'mi/h'] },
+  { category: 'speed', singular: 'knot', plural: 'knots', factor: 1852 / 3600, aliases: ['kn', 'kt'] },
+
+  { category: 'area', singular: 'square meter', plural: 'square meters', factor: 1, aliases: ['m2', 'm²', 'sq m', 'square metre', 'square metres'] },
+  { category: 'area', singular: 'square kilometer', plural: 'square kilometers', factor: 1e6, aliases: ['km2', 'km²', 'sq km', 'square kilometre', 'square kilometres'] },
+  { category: 'area', singular: 'square foot', plural: 'square feet', factor: 0.09290304, aliases: ['ft2', 'ft²', 'sq ft'] },
+  { category: 'area', singular: 'square mile', plural: 'square miles', factor: 2589988.110336, aliases: ['mi2', 'mi²', 'sq mi'] },
+  { category: 'area', singular: 'acre', plural: 'acres', factor: 4046.8564224, aliases: ['ac'] },
+  { category: 'area', singular: 'hectare', plural: 'hectares', factor: 10000, aliases: ['ha'] },
+
+  { category: 'time', singular: 'second', plural: 'seconds', factor: 1, aliases: ['s', 'sec', 'secs'] },
+  { category: 'time', singular: 'minute', plural: 'minutes', factor: 60, aliases: ['min', 'mins'] },
+  { category: 'time', singular: 'hour', plural: 'hours', factor: 3600, aliases: ['h', 'hr', 'hrs'] },
+  { category: 'time', singular: 'day', plural: 'days', factor: 86400, aliases: ['d'] },
+  { category: 'time', singular: 'week', plural: 'weeks', factor: 604800, aliases: ['wk', 'wks'] },
+  { category: 'time', singular: 'year', plural: 'years', factor: 31557600, aliases: ['yr', 'yrs'] },
+
+  { category: 'data', singular: 'byte', plural: 'bytes', factor: 1, aliases: ['b'] },
+  { category: 'data', singular: 'kilobyte', plural: 'kilobytes', factor: 1e3, aliases: ['kb'] },
+  { category: 'data', singular: 'megabyte', plural: 'megabytes', factor: 1e6, aliases: ['mb'] },
+  { category: 'data', singular: 'gigabyte', plural: 'gigabytes', factor: 1e9, aliases: ['gb'] },
+  { category: 'data', singular: 'terabyte', plural: 'terabytes', factor: 1e12, aliases: ['tb'] },
+  { category: 'data', singular: 'kibibyte', plural: 'kibibytes', factor: 1024, aliases: ['kib'] },
+  { category: 'data', singular: 'mebibyte', plural: 'mebibytes', factor: 1024 ** 2, aliases: ['mib'] },
+  { category: 'data', singular: 'gibibyte', plural: 'gibibytes', factor: 1024 ** 3, aliases: ['gib'] },
+];
+
+/**
+ * Every name a unit is known by, lowercased
+ */
+const UNIT_NAMES = new Map<string, UnitDefinition>(
+  UNITS.flatMap(unit => [unit.singular, unit.plural, ...unit.aliases].map(name => [name.toLowerCase(), unit] as const))
+);
+
+/**
+ * Look up a unit by any of its names ("km", "Kilometres", "degrees F")
+ */
+function findUnit(name: string): UnitDefinition | undefined {
+  const key = name.toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '').trim();
+  return UNIT_NAMES.get(key) ?? UNIT_NAMES.get(key.replace(/^degrees? /, ''));
+}
+
+/**
+ * Convert a value between two units of the same kind
+ * Throws an Error for unknown units or units that measure different things
+ */
+export function convertUnits(value: number, from: string, to: string): UnitConversion {
+  if (!isFinite(value)) {
+    throw new Error('The value must be a number');
+  }
+
+  const fromUnit = findUnit(from);
+  if (!fromUnit) {
+    throw new Error(`Unknown unit "${from}"`);
+  }
+  const toUnit = findUnit(to);
+  if (!toUnit) {
+    throw new Error(`Unknown unit "${to}"`);
+  }
+  if (fromUnit.category !== toUnit.category) {
+    throw new Error(`Cannot convert ${fromUnit.plural} (${fromUnit.category}) to ${toUnit.plural} (${toUnit.category})`);
+  }
+
+  const base = value * fromUnit.factor + (fromUnit.offset ?? 0);
+  if (fromUnit.category === 'temperature' && base < 0) {
+    throw new Error('That is below absolute zero');
+  }
+
+  const result = (base - (toUnit.offset ?? 0)) / toUnit.factor;
+
+  return {
+    value,
+    result,
+    from: value === 1 ? fromUnit.singular : fromUnit.plural,
+    to: Number(result.toPrecision(6)) === 1 ? toUnit.singular : toUnit.plural,
+    category: fromUnit.category,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * WAV Utilities
+ * Wraps raw 16-bit PCM from local TTS engines in a WAV container the
+ * browser can play, and reads the format back from a WAV header
+ */
+
+/**
+ * Format of PCM audio
+ */
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+const HEADER_BYTES = 44;
+
+/**
+ * Wrap little-endian PCM samples in a WAV (RIFF) header
+ */
+export function encodeWav(pcm: Buffer, format: PcmFormat): Buffer {
+  const { sampleRate, channels, bitsPerSample } = format;
+  const blockAlign = channels * bitsPerSample / 8;
+  const header = Buffer.alloc(HEADER_BYTES);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(HEADER_BYTES - 8 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);                        // fmt chunk size
+  header.writeUInt16LE(1, 20);                         // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);   // Byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Fix the RIFF and data sizes of a WAV written to a pipe
+ * Engines streaming to stdout can't seek back to fill them in, and leave
+ * placeholders some players reject
+ */
+export function repairWavSizes(wav: Buffer): Buffer {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    return wav;
+  }
+
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    if (id === 'data') {
+      const fixed = Buffer.from(wav);
+      fixed.writeUInt32LE(wav.length - 8, 4);
+      fixed.writeUInt32LE(wav.length - offset - 8, offset + 4);
+      return fixed;
+    }
+    const size = wav.readUInt32LE(offset + 4);
+    offset += 8 + size + (size % 2);
+  }
+
+  return wav;
+}
+
+/**
+ * Read the format and duration of a PCM WAV file
+ * Returns undefined when the buffer isn't one
+ */
+export function readWavInfo(wav: Buffer): (PcmFormat & { durationMs: number }) | undefined {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let format: PcmFormat | undefined;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+
+    if (id === 'fmt ' && offset + 24 <= wav.length) {
+      format = {
+        channels: wav.readUInt16LE(offset + 10),
+        sampleRate: wav.readUInt32LE(offset + 12),
+        bitsPerSample: wav.readUInt16LE(offset + 22),
+      };
+    } else if (id === 'data' && format) {
+      // Streamed WAVs (e.g. from stdout) leave the size unset: use what is there
+      const dataBytes = size === 0 || size === 0xffffffff ? wav.length - offset - 8 : Math.min(size, wav.length - offset - 8);
+      const bytesPerSecond = format.sampleRate * format.channels * format.bitsPerSample / 8;
+      return { ...format, durationMs: bytesPerSecond ? Math.round(dataBytes / bytesPerSecond * 1000) : 0 };
+    }
+
+    offset += 8 + size + (size % 2);  // Chunks are word-aligned
+  }
+
+  return undefined;
+}
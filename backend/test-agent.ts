@@ -2,7 +2,9 @@
  * Simple test script to verify agent is working
  */
 
-import { voiceAgent } from './src/agent/voice-agent.js';
+import { VoiceAgent } from './src/agent/voice-agent.js';
+
+const voiceAgent = new VoiceAgent();
 
 async function testAgent() {
   console.log('\n🧪 Testing Voice Agent...\n');
@@ -0,0 +1,99 @@
+/**
+ * Test script for the speech text normalizer
+ * Checks what the voice is given for common kinds of written text
+ */
+
+import { normalizeSpeech, processResponseText } from './src/utils/text-processing.js';
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function check(cases: Array<[string, string]>): void {
+  for (const [text, expected] of cases) {
+    const actual = normalizeSpeech(text);
+    expect(actual === expected, `${JSON.stringify(text)}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function testSpeech() {
+  console.log('\n🧪 Testing the speech text normalizer...\n');
+
+  try {
+    // Test 1: Magnitudes and labels
+    console.log('Test 1: Magnitudes and labels');
+    const magnitudes: Array<[string, string]> = [
+      ['Meet me in Room 4B.', 'Meet me in Room four B.'],
+      ['I ran a 5K run today.', 'I ran a five K run today.'],
+      ['Your seat is 12B.', 'Your seat is twelve B.'],
+      ['It costs $5K.', 'It costs five thousand dollars.'],
+      ['Revenue was €1.5M last year.', 'Revenue was one point five million euros last year.'],
+      ['The video has 2.5M views.', 'The video has two point five million views.'],
+    ];
+    check(magnitudes);
+    console.log('✅', magnitudes.length, 'cases\n');
+
+    // Test 2: Numbers, units, dates and times
+    console.log('Test 2: Numbers, units, dates and times');
+    const numbers: Array<[string, string]> = [
+      ['Music from the 1990s.', 'Music from the nineteen nineties.'],
+      ['The file is 3.5GB.', 'The file is three point five gigabytes.'],
+      ['It is 72°F outside.', 'It is seventy-two degrees Fahrenheit outside.'],
+      ['The meeting is on 2026-10-19.', 'The meeting is on October nineteenth, twenty twenty-six.'],
+      ['See you Oct 19 at 3:05 pm.', 'See you October nineteenth at three oh five P M.'],
+      ['Call 555-123-4567.', 'Call five five five, one two three, four five six seven.'],
+      ['That is 1,234 people.', 'That is one thousand two hundred thirty-four people.'],
+      ['She came 1st.', 'She came first.'],
+      ['Update to v1.2.3.', 'Update to version one point two point three.'],
+      ['I write C#, F# and C++.', 'I write C sharp, F sharp and C plus plus.'],
+    ];
+    check(numbers);
+    console.log('✅', numbers.length, 'cases\n');
+
+    // Test 3: Markup, URLs and code
+    console.log('Test 3: Markup, URLs and code');
+    const markup: Array<[string, string]> = [
+      ['**Note:** see https://github.com/foo/bar for details.', 'Note: see github dot com for details.'],
+      ['Run this:\n```js\nconsole.log(1);\n```', 'Run this: There is a code sample on screen.'],
+      ['Call `getUserName()` first.', 'Call get User Name first.'],
+      ['*giggles* Okay!', 'Okay!'],
+      ['[laughs] Sure.', 'Sure.'],
+      ["That's funny *giggles* anyway.", "That's funny anyway."],
+      ['I know *smiles warmly*.', 'I know.'],
+      ['Well, *Sighs*, fine.', 'Well, fine.'],
+      ['***Wow*** that is **big**.', 'Wow that is big.'],
+      ['2 * 3 * 4 is 24.', 'two times three times four is twenty-four.'],
+    ];
+    check(markup);
+    console.log('✅', markup.length, 'cases\n');
+
+    // Test 4: Pronunciation lexicon
+    console.log('Test 4: Pronunciation lexicon');
+    const pronunciations = { nginx: 'engine x', GIF: 'jif' };
+    const lexicon: Array<[string, string]> = [
+      ['Restart Nginx.', 'Restart engine x.'],
+      ['Send a GIF, not a gif.', 'Send a jif, not a gif.'],
+    ];
+    for (const [text, expected] of lexicon) {
+      const actual = normalizeSpeech(text, pronunciations);
+      expect(actual === expected, `${JSON.stringify(text)}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+
+    const processed = processResponseText('Restart nginx 😊', pronunciations);
+    expect(processed.display === 'Restart nginx 😊', `unexpected display text ${processed.display}`);
+    expect(processed.speech === 'Restart engine x', `unexpected speech text ${processed.speech}`);
+    expect(processResponseText('Restart nginx').speech === 'Restart nginx', 'no lexicon must leave words as written');
+    console.log('✅', lexicon.length, 'cases\n');
+
+    console.log('═══════════════════════════════════════════════════════');
+    console.log('✅ All tests passed!');
+    console.log('═══════════════════════════════════════════════════════\n');
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+testSpeech();
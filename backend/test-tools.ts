@@ -0,0 +1,123 @@
+/**
+ * Test script for the calculator, unit conversion and date/time tools
+ * Runs the tool handlers and summarizers directly, so no model is needed
+ */
+
+import calculate from './src/tools/plugins/calculate.js';
+import convertUnits from './src/tools/plugins/convert-units.js';
+import getCurrentDateTime from './src/tools/plugins/get-current-date-time.js';
+import type { ToolContext, ToolPlugin } from './src/tools/definitions.js';
+import { evaluateExpression, formatNumber } from './src/utils/expression-parser.js';
+import { resolveTimeZone } from './src/utils/time-parsing.js';
+
+const context: ToolContext = {
+  userId: 'test',
+  signal: new AbortController().signal,
+  runOnFrontend: async () => ({ success: false, error: 'No client' }),
+};
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function run(plugin: ToolPlugin, parameters: Record<string, any>) {
+  return plugin.handler!(parameters, context);
+}
+
+async function testTools() {
+  console.log('\n🧪 Testing calculator, unit and date/time tools...\n');
+
+  try {
+    // Test 1: Arithmetic
+    console.log('Test 1: calculate');
+    const expressions: Array<[string, string]> = [
+      ['12 * (3 + 4)', '84'],
+      ['0.1 + 0.2', '0.3'],
+      ['-2^2', '-4'],
+      ['2^3^2', '512'],
+      ['7 times 6', '42'],
+      ['what is 10 divided by 4?', '2.5'],
+      ['2 pi', '6.28318530718'],
+      ['sqrt(16) + max(1, 2, 3)', '7'],
+      ['1,000 + 1', '1001'],
+      ['17 mod 5', '2'],
+      ['sin(30)', '0.5'],
+      ['15% of 80', '12'],
+      ['50%', '0.5'],
+      ['100 - 10%', '90'],
+      ['200 + 5%', '210'],
+      ['100 - 10% * 2', '99.8'],
+      ['100 - (10%)', '99.9'],
+      ['80 - 15% of 80', '68'],
+    ];
+    for (const [expression, expected] of expressions) {
+      const actual = formatNumber(evaluateExpression(expression));
+      expect(actual === expected, `${expression}: expected ${expected}, got ${actual}`);
+    }
+
+    for (const invalid of ['2 +', '1 / 0', 'eval(1)', 'process.exit()', '((((', 'sqrt(1, 2)', '9'.repeat(201)]) {
+      let failed = false;
+      try {
+        evaluateExpression(invalid);
+      } catch {
+        failed = true;
+      }
+      expect(failed, `${invalid.slice(0, 20)}: expected an error`);
+    }
+
+    const sum = await run(calculate, { expression: '100 - 10%' });
+    expect(calculate.summarize!(sum, {}) === 'calculate: 100 - 10% = 90 (exact result; use this number)', `unexpected summary ${calculate.summarize!(sum, {})}`);
+    const failed = await run(calculate, { expression: 'foo' });
+    expect(!failed.success && failed.error!.includes('Unknown name "foo"'), `unexpected error ${failed.error}`);
+    console.log('✅', expressions.length, 'expressions\n');
+
+    // Test 2: Unit conversion
+    console.log('Test 2: convertUnits');
+    const conversions: Array<[Record<string, any>, string]> = [
+      [{ value: 5, from: 'miles', to: 'km' }, '8.04672'],
+      [{ value: 212, from: 'degrees F', to: 'celsius' }, '100'],
+      [{ value: 1, from: 'lb', to: 'g' }, '453.592'],
+      [{ value: 2, from: 'cups', to: 'ml' }, '473.176'],
+    ];
+    for (const [parameters, expected] of conversions) {
+      const execution = await run(convertUnits, parameters);
+      const actual = execution.result?.formatted ?? execution.error;
+      expect(execution.success && actual === expected, `${JSON.stringify(parameters)}: expected ${expected}, got ${actual}`);
+    }
+
+    const mismatch = await run(convertUnits, { value: 1, from: 'kg', to: 'meters' });
+    expect(!mismatch.success, 'kilograms to meters must fail');
+    const belowZero = await run(convertUnits, { value: -500, from: 'celsius', to: 'kelvin' });
+    expect(!belowZero.success, 'below absolute zero must fail');
+    console.log('✅', conversions.length, 'conversions\n');
+
+    // Test 3: Date and time
+    console.log('Test 3: getCurrentDateTime');
+    const zones: Array<[string, string]> = [
+      ['Europe/Paris', 'Europe/Paris'],
+      ['tokyo', 'Asia/Tokyo'],
+      ['UTC+2', 'Etc/GMT-2'],
+    ];
+    for (const [name, expected] of zones) {
+      expect(resolveTimeZone(name) === expected, `${name}: expected ${expected}, got ${resolveTimeZone(name)}`);
+    }
+    expect(resolveTimeZone('Atlantis') === undefined, 'Atlantis must not resolve');
+
+    const tokyo = await run(getCurrentDateTime, { timezone: 'Tokyo' });
+    expect(tokyo.success && tokyo.result.utcOffset === 'UTC+09:00', `unexpected result ${JSON.stringify(tokyo.result)}`);
+    const unknown = await run(getCurrentDateTime, { timezone: 'Atlantis' });
+    expect(!unknown.success, 'an unknown time zone must fail');
+    console.log('✅', getCurrentDateTime.summarize!(tokyo, {}), '\n');
+
+    console.log('═══════════════════════════════════════════════════════');
+    console.log('✅ All tests passed!');
+    console.log('═══════════════════════════════════════════════════════\n');
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+testTools();
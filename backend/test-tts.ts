@@ -0,0 +1,142 @@
+/**
+ * Test script for the HTTP TTS backends and the audio cache
+ * Runs against a local stub server speaking both the Coqui and the
+ * OpenAI-compatible API, so no real TTS server is needed
+ */
+
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { TtsService } from './src/pipeline/tts-service.js';
+import { ResponsePipeline } from './src/pipeline/response-pipeline.js';
+import { VoiceAgent } from './src/agent/voice-agent.js';
+import { personaRegistry } from './src/agent/personas.js';
+import { getTtsConfig, type TtsConfig } from './src/config/tts.js';
+import { audioStore } from './src/pipeline/audio-store.js';
+import { encodeWav } from './src/utils/wav.js';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body: string;
+}
+
+const oneSecondOfSilence = encodeWav(Buffer.alloc(22050 * 2), { sampleRate: 22050, channels: 1, bitsPerSample: 16 });
+const requests: StubRequest[] = [];
+
+/**
+ * Stub server: /fail answers 500, /slow takes 2 s, anything else returns a WAV
+ */
+const stub = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => body += chunk);
+  req.on('end', () => {
+    requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body });
+
+    if (req.url?.startsWith('/fail')) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('model not loaded');
+    } else if (req.url?.startsWith('/slow')) {
+      setTimeout(() => {
+        res.writeHead(200, { 'Content-Type': 'audio/wav' });
+        res.end(oneSecondOfSilence);
+      }, 2000);
+    } else {
+      res.writeHead(200, { 'Content-Type': 'audio/wav' });
+      res.end(oneSecondOfSilence);
+    }
+  });
+});
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function testTts() {
+  console.log('\n🧪 Testing HTTP TTS...\n');
+
+  await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+  const stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  const speak = (config: Partial<TtsConfig>) =>
+    new TtsService({ ...getTtsConfig(), cacheEnabled: false, ...config }).textToSpeech('Hello & goodbye?');
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tts-cache-'));
+  process.on('exit', () => fs.rmSync(cacheDir, { recursive: true, force: true }));
+
+  try {
+    // Test 1: Coqui API
+    console.log('Test 1: Coqui /api/tts');
+    const coqui = await speak({ provider: 'coqui', coquiUrl: stubUrl, coquiSpeaker: 'p225', coquiLanguage: 'en' });
+    expect(coqui.method === 'audio' && !!coqui.audioUrl, 'expected an audio clip');
+    expect(requests.at(-1)?.url === '/api/tts?text=Hello+%26+goodbye%3F&speaker_id=p225&language_id=en', `unexpected request ${requests.at(-1)?.url}`);
+    expect(!!audioStore.get(coqui.audioUrl!.split('/').pop()!), 'clip not stored');
+    expect(coqui.metadata?.duration === 1, `unexpected duration ${coqui.metadata?.duration}`);
+    console.log('✅ Clip:', coqui.audioUrl, '\n');
+
+    // Test 2: OpenAI-compatible API
+    console.log('Test 2: OpenAI-compatible /v1/audio/speech');
+    const openai = await speak({ provider: 'openai', openaiTtsUrl: `${stubUrl}/v1/`, openaiTtsVoice: 'af_bella', openaiTtsApiKey: 'secret', rate: 1.5 });
+    const request = requests.at(-1);
+    expect(openai.method === 'audio', 'expected an audio clip');
+    expect(request?.method === 'POST' && request.url === '/v1/audio/speech', `unexpected request ${request?.method} ${request?.url}`);
+    expect(request?.authorization === 'Bearer secret', 'missing API key');
+    const body = JSON.parse(request!.body);
+    expect(body.input === 'Hello & goodbye?' && body.voice === 'af_bella' && body.speed === 1.5, `unexpected body ${request?.body}`);
+    console.log('✅ Body:', request?.body, '\n');
+
+    // Test 3: Server error falls back to browser TTS
+    console.log('Test 3: Server error');
+    const failed = await speak({ provider: 'openai', openaiTtsUrl: `${stubUrl}/fail` });
+    expect(failed.method === 'browser', 'expected the browser fallback');
+    console.log('✅ Fell back to browser TTS\n');
+
+    // Test 4: Timeout falls back to browser TTS
+    console.log('Test 4: Timeout');
+    const slow = await speak({ provider: 'coqui', coquiUrl: `${stubUrl}/slow`, httpTimeoutMs: 500 });
+    expect(slow.method === 'browser', 'expected the browser fallback');
+    console.log('✅ Fell back to browser TTS\n');
+
+    // Test 5: Repeated sentences come from the disk cache
+    console.log('Test 5: Audio cache');
+    const cachedConfig: TtsConfig = { ...getTtsConfig(), provider: 'coqui', coquiUrl: stubUrl, cacheEnabled: true, cacheDir };
+    const first = new TtsService(cachedConfig);
+    await first.textToSpeech('Nice to meet you.');
+    await new Promise(resolve => setTimeout(resolve, 100));  // Cache writes don't hold up playback
+    const requestCount = requests.length;
+    const second = new TtsService(cachedConfig);  // As after a restart
+    const repeated = await second.textToSpeech('Nice  to meet you.');
+    expect(repeated.method === 'audio' && repeated.metadata?.cached === true, 'expected a cache hit');
+    expect(requests.length === requestCount, 'cached sentence was synthesized again');
+    const faster = await second.textToSpeech('Nice to meet you.', { rate: 1.5 });
+    expect(!faster.metadata?.cached, 'a different rate must not hit the cache');
+    console.log('✅ Stats:', second.getStats().cache, '\n');
+
+    // Test 6: A pre-warmed greeting plays from the cache on a persona switch
+    console.log('Test 6: Pre-warmed greeting');
+    const persona = personaRegistry.list().find(candidate => candidate.id !== personaRegistry.getDefault().id) ?? personaRegistry.getDefault();
+    await new TtsService(cachedConfig).prewarm([{ text: persona.greeting, voice: persona.voice }]);
+    const prewarmedCount = requests.length;
+    const agent = new VoiceAgent();
+    agent.setPersona(persona);
+    const greeting = await new ResponsePipeline(agent, new TtsService(cachedConfig)).greet();
+    expect(greeting.length > 0, 'expected greeting sentences');
+    expect(greeting.every(sentence => sentence.tts.metadata?.cached === true), 'expected every greeting sentence from the cache');
+    expect(requests.length === prewarmedCount, 'pre-warmed greeting was synthesized again');
+    console.log('✅', greeting.length, 'sentence(s) of', persona.name, 'greeting from the cache\n');
+
+    console.log('═══════════════════════════════════════════════════════');
+    console.log('✅ All tests passed!');
+    console.log('═══════════════════════════════════════════════════════\n');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  }
+}
+
+testTts();
@@ -1,24 +1,65 @@
 import { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { ttsManager } from './utils/tts';
+import { audioPlayer } from './utils/audio-player';
 import { sttManager } from './utils/stt';
+import { frontendTools } from './tools/registry';
 import { AnimatedCharacter } from './components/AnimatedCharacter';
-import type { CharacterState } from './components/AnimatedCharacter';
+import type { CharacterState, CharacterAvatar } from './components/AnimatedCharacter';
 import './App.css';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  streaming?: boolean;
+  interrupted?: boolean;
 }
 
 interface TtsData {
   provider: string;
   method: string;
   text: string;
+  audioUrl?: string;  // Server-side TTS (method 'audio'): path of the clip on the backend
   metadata?: any;
 }
 
+const BACKEND_URL = 'http://localhost:3001';
+
+// Persona as sent by the backend
+interface PersonaInfo {
+  id: string;
+  name: string;
+  description: string;
+  greeting: string;
+  voice: { browserVoice?: string; rate?: number; pitch?: number; volume?: number };
+  avatar: CharacterAvatar;
+}
+
+// Tool call waiting for the user's yes/no ('tool-confirmation')
+interface ToolConfirmation {
+  toolName: string;
+  arguments: Record<string, any>;
+  question: string;
+}
+
+// Unique id for each user turn, used to cancel it and to drop stale events
+const createTurnId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Token for the user id the backend gave this browser, so Pixel's long-term memory follows the user across sessions
+const USER_TOKEN_KEY = 'pixel-user-token';
+
+// Token for the session of this tab, so a reload or reconnect resumes the same conversation
+const SESSION_TOKEN_KEY = 'pixel-session-token';
+
+// Conversation entry as sent by the backend in 'conversation-history'
+interface HistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  interrupted?: boolean;
+}
+
 function App() {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [connected, setConnected] = useState(false);
@@ -30,7 +71,12 @@ function App() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [voiceTranscript, setVoiceTranscript] = useState('');
   const [sttSupported, setSttSupported] = useState(true);
+  const [persona, setPersona] = useState<PersonaInfo | null>(null);
+  const [personas, setPersonas] = useState<PersonaInfo[]>([]);
+  const [confirmation, setConfirmation] = useState<ToolConfirmation | null>(null);
+  const personaRef = useRef<PersonaInfo | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const currentTurnIdRef = useRef<string | null>(null);
 
   // Scroll to bottom when messages change
   const scrollToBottom = () => {
@@ -53,8 +99,15 @@ function App() {
   useEffect(() => {
     console.log('[APP] Connecting to backend...');
 
-    const newSocket = io('http://localhost:3001', {
+    const newSocket = io(BACKEND_URL, {
       transports: ['websocket', 'polling'],
+      // Read on every (re)connect, so a reconnect picks up the session we were given.
+      // The tools list tells the backend which UI tools this client can run.
+      auth: (cb) => cb({
+        userToken: localStorage.getItem(USER_TOKEN_KEY),
+        sessionToken: sessionStorage.getItem(SESSION_TOKEN_KEY),
+        tools: frontendTools.getCapabilities(),
+      }),
     });
 
     newSocket.on('connect', () => {
@@ -63,10 +116,52 @@ function App() {
       setStatus('Connected');
     });
 
-    newSocket.on('connected', (data: { message: string; agentInfo: any }) => {
+    newSocket.on('connected', (data: { message: string; sessionId: string; sessionToken: string; userId: string; userToken: string; persona: PersonaInfo; personas: PersonaInfo[]; tools: string[]; agentInfo: any }) => {
       console.log('[APP] Received connected event:', data);
+      sessionStorage.setItem(SESSION_TOKEN_KEY, data.sessionToken);
+      localStorage.setItem(USER_TOKEN_KEY, data.userToken);
+      personaRef.current = data.persona;
+      setPersona(data.persona);
+      setPersonas(data.personas);
       setStatus('Ready');
       setCharacterState('idle');
+
+      // Restore the conversation if this session already has one
+      newSocket.emit('get-history');
+    });
+
+    newSocket.on('conversation-history', (data: { sessionId: string; history: HistoryEntry[] }) => {
+      console.log('[APP] Restored history:', data.history.length, 'messages');
+
+      // A new conversation starts with the persona's greeting
+      if (data.history.length === 0 && personaRef.current) {
+        setMessages([{ role: 'assistant', content: personaRef.current.greeting, timestamp: new Date().toISOString() }]);
+        return;
+      }
+
+      setMessages(data.history.map(entry => ({
+        role: entry.role,
+        content: entry.content,
+        timestamp: entry.timestamp,
+        interrupted: entry.interrupted,
+      })));
+    });
+
+    newSocket.on('persona-changed', (data: { persona: PersonaInfo; greeting: Array<{ index: number; speechText: string; tts: TtsData }> }) => {
+      console.log('[APP] Persona changed:', data.persona.name);
+      personaRef.current = data.persona;
+      setPersona(data.persona);
+
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: data.persona.greeting,
+        timestamp: new Date().toISOString(),
+      }]);
+
+      // The greeting comes prepared like a streamed reply, in the new persona's voice
+      ttsManager.stop();
+      audioPlayer.stop();
+      data.greeting.forEach(sentence => speakResponse(sentence.speechText, sentence.tts, true));
     });
 
     newSocket.on('disconnect', () => {
@@ -76,15 +171,21 @@ function App() {
       setCharacterState('idle');
     });
 
-    newSocket.on('agent-processing', (data: { status: string }) => {
+    // Events from a turn that was cancelled or replaced are ignored
+    const isCurrentTurn = (turnId?: string) => !turnId || turnId === currentTurnIdRef.current;
+
+    newSocket.on('agent-processing', (data: { turnId: string; status: string }) => {
+      if (!isCurrentTurn(data.turnId)) return;
       console.log('[APP] Agent processing:', data.status);
       setStatus(data.status);
       setIsProcessing(true);
       setCharacterState('thinking');
     });
 
-    newSocket.on('agent-response', (data: { displayText: string; speechText: string; tts: TtsData; timestamp: string; processingTimeMs: number }) => {
+    newSocket.on('agent-response', (data: { turnId: string; displayText: string; speechText: string; tts: TtsData; timestamp: string; processingTimeMs: number }) => {
+      if (!isCurrentTurn(data.turnId)) return;
       console.log('[APP] Agent response:', data);
+      currentTurnIdRef.current = null;
 
       // Add assistant message to history (with emojis for display)
       setMessages(prev => [...prev, {
@@ -94,67 +195,108 @@ function App() {
       }]);
 
       // Speak the response if TTS is enabled (without emojis for speech)
-      if (data.tts && data.tts.method === 'browser') {
-        handleSpeak(data.speechText, data.tts.metadata);
-      }
+      speakResponse(data.speechText, data.tts, false);
 
       setStatus(`Ready (${data.processingTimeMs}ms)`);
       setIsProcessing(false);
     });
 
-    newSocket.on('agent-error', (data: { error: string; timestamp: string }) => {
+    // Messages the agent sends on its own (due timers and reminders)
+    newSocket.on('agent-proactive', (data: { displayText: string; speechText: string; tts: TtsData; timestamp: string; reminder: { id: string; kind: 'timer' | 'reminder'; dueAt: string } }) => {
+      console.log('[APP] Proactive message:', data);
+
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: data.displayText,
+        timestamp: data.timestamp,
+      }]);
+
+      // Queued, so it doesn't cut off a reply that is still being spoken
+      speakResponse(data.speechText, data.tts, true);
+    });
+
+    // Streamed responses: start → chunks (text) + sentences (speech) → end
+    newSocket.on('agent-response-start', (data: { turnId: string; timestamp: string }) => {
+      if (!isCurrentTurn(data.turnId)) return;
+      console.log('[APP] Agent response stream started');
+
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: data.timestamp,
+        streaming: true,
+      }]);
+    });
+
+    newSocket.on('agent-response-chunk', (data: { turnId: string; text: string }) => {
+      if (!isCurrentTurn(data.turnId)) return;
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (!last || !last.streaming) {
+          return prev;
+        }
+        return [...prev.slice(0, -1), { ...last, content: last.content + data.text }];
+      });
+    });
+
+    newSocket.on('agent-response-sentence', (data: { turnId: string; index: number; speechText: string; tts: TtsData }) => {
+      if (!isCurrentTurn(data.turnId)) return;
+      console.log('[APP] Sentence ready:', data.index);
+
+      speakResponse(data.speechText, data.tts, true);
+    });
+
+    newSocket.on('agent-response-end', (data: { turnId: string; displayText: string; timestamp: string; processingTimeMs: number }) => {
+      if (!isCurrentTurn(data.turnId)) return;
+      console.log('[APP] Agent response stream ended:', data);
+      currentTurnIdRef.current = null;
+
+      // Replace the streamed text with the final text
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (!last || !last.streaming) {
+          return [...prev, { role: 'assistant', content: data.displayText, timestamp: data.timestamp }];
+        }
+        return [...prev.slice(0, -1), { ...last, content: data.displayText, streaming: false }];
+      });
+
+      setStatus(`Ready (${data.processingTimeMs}ms)`);
+      setIsProcessing(false);
+      if (!isSpeechQueued()) {
+        setCharacterState('idle');
+      }
+    });
+
+    newSocket.on('agent-response-cancelled', (data: { turnId: string }) => {
+      console.log('[APP] Turn cancelled:', data.turnId);
+      if (data.turnId === currentTurnIdRef.current) {
+        currentTurnIdRef.current = null;
+        setIsProcessing(false);
+      }
+    });
+
+    newSocket.on('agent-error', (data: { turnId?: string; error: string; timestamp: string }) => {
+      if (!isCurrentTurn(data.turnId)) return;
       console.error('[APP] Agent error:', data);
+      currentTurnIdRef.current = null;
       setStatus(`Error: ${data.error}`);
       setIsProcessing(false);
       setCharacterState('idle');
     });
 
     // Handle frontend tool execution requests
+    // A sensitive tool waits for a yes/no, spoken or clicked
+    newSocket.on('tool-confirmation', (data: ToolConfirmation) => {
+      console.log('[APP] Tool needs confirmation:', data);
+      setConfirmation(data);
+    });
+
     newSocket.on('execute-tool', (data: { executionId: string; toolName: string; parameters: Record<string, any> }) => {
       console.log('[APP] Received tool execution request:', data);
 
-      try {
-        // Execute the tool based on tool name
-        switch (data.toolName) {
-          case 'changeBackgroundColor': {
-            const color = data.parameters.color;
-            console.log('[APP] Changing background color to:', color);
-
-            // Change the background color on the .app div
-            const appElement = document.querySelector('.app') as HTMLElement;
-            if (appElement) {
-              // Use !important to override CSS gradient
-              appElement.style.setProperty('background', color, 'important');
-            }
-
-            // Send success result back to backend
-            newSocket.emit('tool-result', {
-              executionId: data.executionId,
-              success: true,
-              result: {
-                message: `Background color changed to ${color}`,
-                color,
-              },
-            });
-            break;
-          }
-
-          default:
-            // Unknown tool
-            newSocket.emit('tool-result', {
-              executionId: data.executionId,
-              success: false,
-              error: `Unknown tool: ${data.toolName}`,
-            });
-        }
-      } catch (error) {
-        // Execution failed
-        newSocket.emit('tool-result', {
-          executionId: data.executionId,
-          success: false,
-          error: error instanceof Error ? error.message : 'Tool execution failed',
-        });
-      }
+      frontendTools.execute(data.toolName, data.parameters).then(result => {
+        newSocket.emit('tool-result', { executionId: data.executionId, ...result });
+      });
     });
 
     setSocket(newSocket);
@@ -165,11 +307,61 @@ function App() {
     };
   }, []);
 
+  // Whether browser speech or server audio is still playing or queued
+  const isSpeechQueued = () => ttsManager.hasQueuedSpeech() || audioPlayer.hasQueuedAudio();
+
+  // Speak a response the way the backend prepared it: audio from server-side
+  // TTS, or text for the browser's voice
+  const speakResponse = (text: string, tts: TtsData | undefined, queued: boolean) => {
+    if (tts?.method === 'audio' && tts.audioUrl) {
+      handlePlayAudio(`${BACKEND_URL}${tts.audioUrl}`, tts.metadata, queued);
+    } else if (tts?.method === 'browser') {
+      if (queued) {
+        handleSpeakQueued(text, tts.metadata);
+      } else {
+        handleSpeak(text, tts.metadata);
+      }
+    }
+  };
+
+  // Handle playing server-side speech (queued clips play in order)
+  const handlePlayAudio = (url: string, metadata: any, queued: boolean) => {
+    setCharacterState('speaking');
+
+    const options = {
+      volume: metadata?.volume ?? 1.0,
+      onStart: () => {
+        setCharacterState('speaking');
+      },
+      onEnd: () => {
+        if (!isSpeechQueued()) {
+          console.log('[APP] Audio finished');
+          setCharacterState('idle');
+        }
+      },
+      onError: (error: Error) => {
+        console.error('[APP] Audio error:', error);
+        if (!isSpeechQueued()) {
+          setCharacterState('idle');
+        }
+      },
+    };
+
+    if (queued) {
+      audioPlayer.enqueue(url, options);
+    } else {
+      ttsManager.stop();
+      audioPlayer.play(url, options);
+    }
+  };
+
   // Handle speaking text
   const handleSpeak = (text: string, metadata?: any) => {
     setCharacterState('speaking');
+    audioPlayer.stop();
 
     ttsManager.speak(text, {
+      voice: metadata?.voice,
       rate: metadata?.rate || 1.0,
       pitch: metadata?.pitch || 1.0,
       volume: metadata?.volume || 1.0,
@@ -188,13 +380,71 @@ function App() {
     });
   };
 
+  // Handle speaking one sentence of a streamed response
+  const handleSpeakQueued = (text: string, metadata?: any) => {
+    setCharacterState('speaking');
+
+    ttsManager.enqueue(text, {
+      voice: metadata?.voice,
+      rate: metadata?.rate || 1.0,
+      pitch: metadata?.pitch || 1.0,
+      volume: metadata?.volume || 1.0,
+      onStart: () => {
+        setCharacterState('speaking');
+      },
+      onEnd: () => {
+        if (!isSpeechQueued()) {
+          console.log('[APP] TTS queue finished');
+          setCharacterState('idle');
+        }
+      },
+      onError: (error) => {
+        console.error('[APP] TTS error:', error);
+        if (!isSpeechQueued()) {
+          setCharacterState('idle');
+        }
+      },
+    });
+  };
+
+  // Cancel the in-flight turn (barge-in): stop speech, abort generation on the backend
+  const cancelCurrentTurn = () => {
+    ttsManager.stop();
+    audioPlayer.stop();
+
+    const turnId = currentTurnIdRef.current;
+    if (!turnId) {
+      return;
+    }
+
+    console.log('[APP] Cancelling turn:', turnId);
+    socket?.emit('cancel-turn', { turnId });
+    currentTurnIdRef.current = null;
+    setIsProcessing(false);
+
+    // Keep the partial reply, marked as interrupted
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (!last || !last.streaming) {
+        return prev;
+      }
+      return [...prev.slice(0, -1), { ...last, streaming: false, interrupted: true }];
+    });
+  };
+
   // Handle sending message
-  const handleSendMessage = (message: string) => {
-    if (!message.trim() || !socket || !connected || isProcessing) {
+  // confirm carries a clicked yes/no answer to a pending tool confirmation
+  const handleSendMessage = (message: string, confirm?: boolean) => {
+    if (!message.trim() || !socket || !connected) {
       return;
     }
 
-    console.log('[APP] Sending message:', message);
+    // Sending while Pixel is still answering interrupts that answer
+    cancelCurrentTurn();
+
+    const turnId = createTurnId();
+    currentTurnIdRef.current = turnId;
+    console.log('[APP] Sending message:', message, '- turn:', turnId);
 
     // Add user message to history
     setMessages(prev => [...prev, {
@@ -203,14 +453,32 @@ function App() {
       timestamp: new Date().toISOString(),
     }]);
 
+    // Any reply answers (or moves on from) a pending confirmation
+    setConfirmation(null);
+
     // Send to backend
-    socket.emit('user-message', { message });
+    socket.emit('user-message', { message, stream: true, turnId, confirm });
 
     setInputMessage('');
     setVoiceTranscript('');
     setStatus('Processing...');
   };
 
+  // Answer a tool confirmation with the Yes/No buttons
+  const handleConfirm = (approved: boolean) => {
+    handleSendMessage(approved ? 'Yes' : 'No', approved);
+  };
+
+  // Switch persona (the backend answers with 'persona-changed')
+  const handlePersonaChange = (personaId: string) => {
+    if (!socket || personaId === persona?.id) {
+      return;
+    }
+
+    cancelCurrentTurn();
+    socket.emit('set-persona', { personaId });
+  };
+
   // Handle form submit
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -235,17 +503,13 @@ function App() {
 
   // Start voice input
   const startVoiceInput = () => {
-    if (isProcessing) {
-      return;
-    }
-
     console.log('[APP] Starting voice input...');
     setIsListening(true);
     setCharacterState('listening');
     setVoiceTranscript('');
 
-    // Stop any ongoing speech
-    ttsManager.stop();
+    // Barge-in: stop any ongoing speech and generation
+    cancelCurrentTurn();
 
     sttManager.startListening({
       continuous: false,
@@ -293,20 +557,35 @@ function App() {
 
   // Handle stop speaking
   const handleStopSpeaking = () => {
-    ttsManager.stop();
+    cancelCurrentTurn();
     setCharacterState('idle');
   };
 
   return (
     <div className="app">
       <header className="app-header">
-        <h1>Meet Pixel - Your AI Companion</h1>
+        <h1>Meet {persona?.name ?? 'Pixel'} - Your AI Companion</h1>
         <p>Powered by Google ADK + Gemma + Ollama</p>
+        {personas.length > 1 && (
+          <select
+            value={persona?.id ?? ''}
+            onChange={(e) => handlePersonaChange(e.target.value)}
+            disabled={!connected}
+            className="persona-select"
+            title={persona?.description}
+          >
+            {personas.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        )}
       </header>
 
       <main className="app-main">
         <AnimatedCharacter
           state={characterState}
+          avatar={persona?.avatar}
+          name={persona?.name}
           onClick={sttSupported ? handleCharacterClick : undefined}
         />
 
@@ -316,9 +595,9 @@ function App() {
               {status}
             </span>
           </p>
-          {characterState === 'speaking' && (
+          {(characterState === 'speaking' || isProcessing) && (
             <button onClick={handleStopSpeaking} className="stop-button">
-              Stop Speaking
+              {characterState === 'speaking' ? 'Stop Speaking' : 'Stop'}
             </button>
           )}
           {isListening && (
@@ -346,8 +625,8 @@ function App() {
               </p>
             ) : (
               messages.map((msg, idx) => (
-                <div key={idx} className={`message ${msg.role}`}>
-                  <div className="message-role">{msg.role === 'user' ? 'You' : 'Pixel'}</div>
+                <div key={idx} className={`message ${msg.role}${msg.streaming ? ' streaming' : ''}${msg.interrupted ? ' interrupted' : ''}`}>
+                  <div className="message-role">{msg.role === 'user' ? 'You' : (persona?.name ?? 'Pixel')}</div>
                   <div className="message-content">{msg.content}</div>
                 </div>
               ))
@@ -356,21 +635,35 @@ function App() {
           </div>
         </div>
 
+        {confirmation && (
+          <div className="tool-confirmation">
+            <p className="confirmation-question">{confirmation.question}</p>
+            <div className="confirmation-buttons">
+              <button onClick={() => handleConfirm(true)} disabled={!connected} className="confirm-button">
+                Yes
+              </button>
+              <button onClick={() => handleConfirm(false)} disabled={!connected} className="stop-button">
+                No
+              </button>
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleFormSubmit} className="input-form">
           <input
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
             placeholder={connected ? "Type your message or click Pixel to talk..." : "Connecting to Pixel..."}
-            disabled={!connected || isProcessing || isListening}
+            disabled={!connected || isListening}
             className="message-input"
           />
           <button
             type="submit"
-            disabled={!connected || !inputMessage.trim() || isProcessing || isListening}
+            disabled={!connected || !inputMessage.trim() || isListening}
             className="send-button"
           >
-            {isProcessing ? 'Processing...' : 'Send'}
+            Send
           </button>
         </form>
       </main>
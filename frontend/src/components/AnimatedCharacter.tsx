@@ -4,8 +4,15 @@ import characterImage from '../assets/character.png';
 
 export type CharacterState = 'idle' | 'listening' | 'speaking' | 'thinking';
 
+export interface CharacterAvatar {
+  image: string;       // 'character' for the bundled image, or an image URL
+  hueRotate?: number;  // Tint in degrees
+}
+
 interface AnimatedCharacterProps {
   state: CharacterState;
+  avatar?: CharacterAvatar;
+  name?: string;
   onClick?: () => void;
 }
 
@@ -13,7 +20,7 @@ interface AnimatedCharacterProps {
  * AnimatedCharacter Component
  * Simple image-based character with bounce animation
  */
-export function AnimatedCharacter({ state, onClick }: AnimatedCharacterProps) {
+export function AnimatedCharacter({ state, avatar, name, onClick }: AnimatedCharacterProps) {
   const [bounceOffset, setBounceOffset] = useState(0);
 
   useEffect(() => {
@@ -45,9 +52,10 @@ export function AnimatedCharacter({ state, onClick }: AnimatedCharacterProps) {
         onClick={onClick}
       >
         <img
-          src={characterImage}
-          alt="AI Character"
+          src={!avatar || avatar.image === 'character' ? characterImage : avatar.image}
+          alt={name || 'AI Character'}
           className="character-image"
+          style={avatar?.hueRotate ? { filter: `hue-rotate(${avatar.hueRotate}deg)` } : undefined}
         />
         {state === 'listening' && <div className="listening-rings" />}
         {state === 'speaking' && <div className="speaking-waves" />}
@@ -0,0 +1,29 @@
+/**
+ * changeBackgroundColor tool
+ * Sets the background of the .app element (the backend sends a hex color)
+ */
+
+import type { FrontendTool } from '../registry';
+
+const changeBackgroundColor: FrontendTool = {
+  name: 'changeBackgroundColor',
+  version: 1,
+  execute: ({ color }) => {
+    console.log('[TOOLS] Changing background color to:', color);
+
+    const appElement = document.querySelector('.app') as HTMLElement | null;
+    if (!appElement) {
+      throw new Error('App element not found');
+    }
+
+    // Use !important to override CSS gradient
+    appElement.style.setProperty('background', color, 'important');
+
+    return {
+      message: `Background color changed to ${color}`,
+      color,
+    };
+  },
+};
+
+export default changeBackgroundColor;
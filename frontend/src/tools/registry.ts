@@ -0,0 +1,85 @@
+/**
+ * Frontend Tool Registry
+ * Collects the tool handler modules in ./handlers and runs the tools the
+ * backend delegates to the browser
+ */
+
+/**
+ * Result sent back to the backend as 'tool-result'
+ */
+export interface ToolResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+/**
+ * Tool handler module
+ * Each file in ./handlers default-exports one. The version is advertised on
+ * connect and must match the backend plugin's version for the tool to be used.
+ * execute returns the result payload, or throws to report a failure.
+ */
+export interface FrontendTool {
+  name: string;
+  version: number;
+  execute: (parameters: Record<string, any>) => any | Promise<any>;
+}
+
+/**
+ * Tool advertised to the backend on connect
+ */
+export interface ToolCapability {
+  name: string;
+  version: number;
+}
+
+/**
+ * FrontendToolRegistry class
+ * Bundles every handler module at build time
+ */
+export class FrontendToolRegistry {
+  private tools = new Map<string, FrontendTool>();
+
+  constructor() {
+    const modules = import.meta.glob<{ default: FrontendTool }>('./handlers/*.ts', { eager: true });
+
+    for (const [path, module] of Object.entries(modules)) {
+      const tool = module.default;
+      if (!tool?.name || typeof tool.execute !== 'function') {
+        console.warn('[TOOLS] Skipping invalid tool module:', path);
+        continue;
+      }
+      this.tools.set(tool.name, tool);
+    }
+
+    console.log('[TOOLS] Registered frontend tools:', [...this.tools.keys()].join(', ') || 'none');
+  }
+
+  /**
+   * Tools and versions to advertise to the backend
+   */
+  getCapabilities(): ToolCapability[] {
+    return [...this.tools.values()].map(tool => ({ name: tool.name, version: tool.version }));
+  }
+
+  /**
+   * Run a tool and wrap the outcome as a tool result
+   */
+  async execute(toolName: string, parameters: Record<string, any>): Promise<ToolResult> {
+    const tool = this.tools.get(toolName);
+    if (!tool) {
+      return { success: false, error: `Unknown tool: ${toolName}` };
+    }
+
+    try {
+      return { success: true, result: await tool.execute(parameters) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Tool execution failed' };
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const frontendTools = new FrontendToolRegistry();
@@ -0,0 +1,126 @@
+/**
+ * Audio Player Utility
+ * Plays speech synthesized on the backend (Piper and other server-side TTS),
+ * one clip after another
+ */
+
+export interface AudioPlayOptions {
+  volume?: number;
+  onStart?: () => void;
+  onEnd?: () => void;
+  onError?: (error: Error) => void;
+}
+
+interface QueuedClip {
+  url: string;
+  options: AudioPlayOptions;
+}
+
+/**
+ * Audio Player class
+ * Keeps a queue of clip URLs and plays them in order with one audio element
+ */
+export class AudioPlayer {
+  private audio: HTMLAudioElement;
+  private queue: QueuedClip[] = [];
+  private current: QueuedClip | null = null;
+
+  constructor() {
+    this.audio = new Audio();
+    this.audio.preload = 'auto';
+
+    this.audio.onplaying = () => {
+      this.current?.options.onStart?.();
+    };
+
+    this.audio.onended = () => {
+      const finished = this.current;
+      this.current = null;
+      this.playNext();
+      finished?.options.onEnd?.();
+    };
+
+    this.audio.onerror = () => {
+      const failed = this.current;
+      this.current = null;
+      console.error('[AUDIO] Failed to play:', failed?.url);
+      this.playNext();
+      failed?.options.onError?.(new Error('Could not play audio'));
+    };
+
+    console.log('[AUDIO] Audio Player initialized');
+  }
+
+  /**
+   * Play a clip right away, dropping anything playing or queued
+   */
+  play(url: string, options: AudioPlayOptions = {}): void {
+    this.stop();
+    this.enqueue(url, options);
+  }
+
+  /**
+   * Queue a clip to play after anything already playing
+   */
+  enqueue(url: string, options: AudioPlayOptions = {}): void {
+    this.queue.push({ url, options });
+    console.log('[AUDIO] Queued:', url);
+
+    if (!this.current) {
+      this.playNext();
+    }
+  }
+
+  /**
+   * Check if a clip is playing or waiting to play
+   */
+  hasQueuedAudio(): boolean {
+    return !!this.current || this.queue.length > 0;
+  }
+
+  /**
+   * Stop playing and clear the queue
+   */
+  stop(): void {
+    const wasPlaying = this.hasQueuedAudio();
+    this.queue = [];
+    this.current = null;
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.audio.load();
+
+    if (wasPlaying) {
+      console.log('[AUDIO] Stopped playing');
+    }
+  }
+
+  /**
+   * Start the next queued clip
+   */
+  private playNext(): void {
+    const next = this.queue.shift();
+    if (!next) {
+      return;
+    }
+
+    this.current = next;
+    this.audio.src = next.url;
+    this.audio.volume = Math.min(Math.max(next.options.volume ?? 1.0, 0), 1);
+
+    // Autoplay can be refused before the user has interacted with the page
+    this.audio.play().catch((error: Error) => {
+      if (this.current !== next) {
+        return;  // Stopped or replaced meanwhile
+      }
+      console.error('[AUDIO] Playback refused:', error.message);
+      this.current = null;
+      this.playNext();
+      next.options.onError?.(error);
+    });
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const audioPlayer = new AudioPlayer();
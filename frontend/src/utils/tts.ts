@@ -21,6 +21,7 @@ export class TtsManager {
   private synth: SpeechSynthesis;
   private voices: SpeechSynthesisVoice[] = [];
   private currentUtterance: SpeechSynthesisUtterance | null = null;
+  private queuedCount: number = 0;
 
   constructor() {
     if (!('speechSynthesis' in window)) {
@@ -141,10 +142,54 @@ export class TtsManager {
     console.log('[TTS] Speaking:', text.slice(0, 50) + '...');
   }
 
+  /**
+   * Queue text to be spoken after anything already speaking
+   * Used for streamed responses that arrive sentence by sentence
+   */
+  enqueue(text: string, options: TtsOptions = {}): void {
+    const utterance = new SpeechSynthesisUtterance(text);
+
+    const voice = options.voice ? this.findVoice(options.voice) : this.getDefaultVoice();
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    utterance.rate = options.rate || 1.0;
+    utterance.pitch = options.pitch || 1.0;
+    utterance.volume = options.volume || 1.0;
+
+    utterance.onstart = () => {
+      options.onStart?.();
+    };
+
+    utterance.onend = () => {
+      this.queuedCount = Math.max(0, this.queuedCount - 1);
+      options.onEnd?.();
+    };
+
+    utterance.onerror = (event) => {
+      this.queuedCount = Math.max(0, this.queuedCount - 1);
+      options.onError?.(new Error(event.error));
+    };
+
+    this.queuedCount++;
+    this.synth.speak(utterance);
+
+    console.log('[TTS] Queued:', text.slice(0, 50) + '...');
+  }
+
+  /**
+   * Check if queued speech is still pending
+   */
+  hasQueuedSpeech(): boolean {
+    return this.queuedCount > 0;
+  }
+
   /**
    * Stop speaking
    */
   stop(): void {
+    this.queuedCount = 0;
     if (this.synth.speaking) {
       this.synth.cancel();
       this.currentUtterance = null;